@@ -0,0 +1,105 @@
+import { RunnableSequence } from '@langchain/core/runnables';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatOpenAI } from '@langchain/openai';
+import { Document } from 'langchain/document';
+import ListLineOutputParser from '../lib/outputParsers/listLineOutputParser';
+
+const relevanceGraderPrompt = `
+You are a relevance grader for an AI powered search engine. You will be given a search query and a numbered list of documents found for it. Grade how useful each document is for answering the query with a score from 0 to 10.
+
+- 10 means the document directly and reliably answers the query.
+- 0 means the document is unrelated to the query.
+- Prefer authoritative sources like official documentation, research and reputable publications.
+- Give low scores to SEO spam, content farms, listicles and pages that only repeat the words of the query without answering it.
+
+Provide the scores between the XML tags <scores> and </scores>, one line per document in the format "<document number>: <score>". Grade every document. For example:
+
+<scores>
+1: 8
+2: 0
+3: 5
+</scores>
+
+Query: {query}
+
+Documents:
+{documents}
+`;
+
+const batchSize = 10;
+const maxDocumentLength = 600;
+
+type RelevanceGraderInput = {
+  query: string;
+  documents: string;
+};
+
+const outputParser = new ListLineOutputParser({
+  key: 'scores',
+});
+
+const createRelevanceGraderChain = (llm: BaseChatModel) => {
+  return RunnableSequence.from([
+    PromptTemplate.fromTemplate(relevanceGraderPrompt),
+    llm,
+    outputParser,
+  ]);
+};
+
+const gradeBatch = async (
+  query: string,
+  docs: Document[],
+  llm: BaseChatModel,
+) => {
+  const relevanceGraderChain = createRelevanceGraderChain(llm);
+
+  const lines = await relevanceGraderChain.invoke({
+    query,
+    documents: docs
+      .map(
+        (doc, i) =>
+          `${i + 1}. ${doc.metadata.title ?? ''} (${doc.metadata.url ?? ''})\n${doc.pageContent.slice(0, maxDocumentLength)}`,
+      )
+      .join('\n\n'),
+  } as RelevanceGraderInput);
+
+  const scores: (number | null)[] = docs.map(() => null);
+
+  lines.forEach((line) => {
+    const match = line.match(/^\s*(\d+)\s*[:\-]\s*(\d+(?:\.\d+)?)/);
+
+    if (!match) return;
+
+    const index = parseInt(match[1]) - 1;
+
+    if (index >= 0 && index < docs.length) {
+      scores[index] = Math.min(parseFloat(match[2]), 10) / 10;
+    }
+  });
+
+  return scores;
+};
+
+/* Returns a relevance score from 0 to 1 per document, or null for documents the model didn't grade */
+const gradeRelevance = async (
+  query: string,
+  docs: Document[],
+  llm: BaseChatModel,
+) => {
+  (llm as unknown as ChatOpenAI).temperature = 0;
+
+  const batches: Document[][] = [];
+
+  for (let i = 0; i < docs.length; i += batchSize) {
+    batches.push(docs.slice(i, i + batchSize));
+  }
+
+  const scores = await Promise.all(
+    batches.map((batch) => gradeBatch(query, batch, llm)),
+  );
+
+  return scores.flat();
+};
+
+export default gradeRelevance;
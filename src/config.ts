@@ -20,6 +20,69 @@ interface Config {
     SEARXNG: string;
     OLLAMA: string;
   };
+  SEARCH?: {
+    PROVIDER?: string;
+    FOCUS_MODES?: Record<string, string>;
+  };
+  SEARCH_PROVIDERS?: {
+    JSON_API?: JsonSearchApiConfig;
+    LOCAL_INDEX?: {
+      PATH?: string;
+    };
+    MOCK?: {
+      RESULTS_FILE?: string;
+    };
+  };
+  OCR?: {
+    ENABLED?: boolean;
+    LANGUAGES?: string;
+    LANG_PATH?: string;
+    MIN_CONFIDENCE?: number;
+  };
+  RERANKING?: {
+    HYBRID_MODE?: 'weighted' | 'rrf' | 'none';
+    KEYWORD_WEIGHT?: number;
+    RRF_K?: number;
+    RERANKERS?: Record<string, 'llm' | 'crossEncoder' | 'none'>;
+  };
+  CHUNKING?: ChunkingConfig & {
+    SEMANTIC_BREAKPOINT_PERCENTILE?: number;
+    WEB_PAGES?: ChunkingConfig;
+  };
+  FETCH?: {
+    TIMEOUT?: number;
+    MAX_RESPONSE_SIZE?: number;
+    MAX_REDIRECTS?: number;
+    BLOCK_PRIVATE_ADDRESSES?: boolean;
+    ALLOWED_HOSTS?: string[];
+    RESPECT_ROBOTS_TXT?: boolean;
+    USER_AGENT?: string;
+  };
+  CACHE?: {
+    ENABLED?: boolean;
+    SEARCH_TTL?: number;
+    PAGE_TTL?: number;
+    MAX_SEARCH_ENTRIES?: number;
+    MAX_PAGE_ENTRIES?: number;
+  };
+}
+
+interface ChunkingConfig {
+  STRATEGY?: 'recursive' | 'token' | 'sentence' | 'markdown' | 'semantic';
+  CHUNK_SIZE?: number;
+  CHUNK_OVERLAP?: number;
+}
+
+export interface JsonSearchApiConfig {
+  URL: string;
+  METHOD?: 'GET' | 'POST';
+  QUERY_PARAM?: string;
+  HEADERS?: Record<string, string>;
+  RESULTS_PATH?: string;
+  TITLE_FIELD?: string;
+  URL_FIELD?: string;
+  CONTENT_FIELD?: string;
+  TIMEOUT?: number;
 }
 
 type RecursivePartial<T> = {
@@ -51,6 +114,94 @@ export const getSearxngApiEndpoint = () =>
 
 export const getOllamaApiEndpoint = () => loadConfig().API_ENDPOINTS.OLLAMA;
 
+export const getFocusModeSearchProvider = (focusMode: string) => {
+  const searchConfig = loadConfig().SEARCH;
+
+  return (
+    searchConfig?.FOCUS_MODES?.[focusMode] ??
+    searchConfig?.PROVIDER ??
+    'searxng'
+  );
+};
+
+export const getJsonSearchApiConfig = () =>
+  loadConfig().SEARCH_PROVIDERS?.JSON_API;
+
+export const getLocalSearchIndexPath = () =>
+  loadConfig().SEARCH_PROVIDERS?.LOCAL_INDEX?.PATH ??
+  'data/search-index.sqlite';
+
+export const getMockSearchResultsFile = () =>
+  loadConfig().SEARCH_PROVIDERS?.MOCK?.RESULTS_FILE;
+
+export const getHybridRerankingMode = () =>
+  loadConfig().RERANKING?.HYBRID_MODE ?? 'weighted';
+
+export const getKeywordWeight = () =>
+  loadConfig().RERANKING?.KEYWORD_WEIGHT ?? 0.3;
+
+export const getRrfK = () => loadConfig().RERANKING?.RRF_K ?? 60;
+
+export const getFocusModeReranker = (focusMode: string) =>
+  loadConfig().RERANKING?.RERANKERS?.[focusMode];
+
+export const isOcrEnabled = () => loadConfig().OCR?.ENABLED ?? true;
+
+export const getOcrLanguages = () => loadConfig().OCR?.LANGUAGES ?? 'eng';
+
+export const getOcrLangPath = () => loadConfig().OCR?.LANG_PATH;
+
+export const getOcrMinConfidence = () => loadConfig().OCR?.MIN_CONFIDENCE ?? 60;
+
+export const getChunkingConfig = (target: 'uploads' | 'webPages') => {
+  const chunkingConfig = loadConfig().CHUNKING;
+
+  if (target === 'webPages') {
+    return {
+      strategy: chunkingConfig?.WEB_PAGES?.STRATEGY ?? 'recursive',
+      chunkSize: chunkingConfig?.WEB_PAGES?.CHUNK_SIZE ?? 1000,
+      chunkOverlap: chunkingConfig?.WEB_PAGES?.CHUNK_OVERLAP ?? 200,
+    };
+  }
+
+  return {
+    strategy: chunkingConfig?.STRATEGY ?? 'recursive',
+    chunkSize: chunkingConfig?.CHUNK_SIZE ?? 500,
+    chunkOverlap: chunkingConfig?.CHUNK_OVERLAP ?? 100,
+  };
+};
+
+export const getSemanticBreakpointPercentile = () =>
+  loadConfig().CHUNKING?.SEMANTIC_BREAKPOINT_PERCENTILE ?? 95;
+
+export const getFetchConfig = () => {
+  const fetchConfig = loadConfig().FETCH;
+
+  return {
+    timeout: fetchConfig?.TIMEOUT ?? 15000,
+    maxResponseSize: fetchConfig?.MAX_RESPONSE_SIZE ?? 10 * 1024 * 1024,
+    maxRedirects: fetchConfig?.MAX_REDIRECTS ?? 5,
+    blockPrivateAddresses: fetchConfig?.BLOCK_PRIVATE_ADDRESSES ?? true,
+    allowedHosts: (fetchConfig?.ALLOWED_HOSTS ?? []).map((host) =>
+      host.toLowerCase(),
+    ),
+    respectRobotsTxt: fetchConfig?.RESPECT_ROBOTS_TXT ?? false,
+    userAgent: fetchConfig?.USER_AGENT ?? 'Perplexica',
+  };
+};
+
+export const getCacheConfig = () => {
+  const cacheConfig = loadConfig().CACHE;
+
+  return {
+    enabled: cacheConfig?.ENABLED ?? true,
+    searchTtl: cacheConfig?.SEARCH_TTL ?? 900,
+    pageTtl: cacheConfig?.PAGE_TTL ?? 3600,
+    maxSearchEntries: cacheConfig?.MAX_SEARCH_ENTRIES ?? 500,
+    maxPageEntries: cacheConfig?.MAX_PAGE_ENTRIES ?? 200,
+  };
+};
+
 export const updateConfig = (config: RecursivePartial<Config>) => {
   const currentConfig = loadConfig();
 
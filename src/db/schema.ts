@@ -1,5 +1,12 @@
 import { sql } from 'drizzle-orm';
-import { text, integer, sqliteTable } from 'drizzle-orm/sqlite-core';
+import {
+  text,
+  integer,
+  blob,
+  index,
+  sqliteTable,
+} from 'drizzle-orm/sqlite-core';
+import type { ChunkingOptions } from '../lib/chunking';
 
 export const messages = sqliteTable('messages', {
   id: integer('id').primaryKey(),
@@ -25,4 +32,41 @@ export const chats = sqliteTable('chats', {
   files: text('files', { mode: 'json' })
     .$type<File[]>()
     .default(sql`'[]'`),
+  collections: text('collections', { mode: 'json' })
+    .$type<string[]>()
+    .default(sql`'[]'`),
+});
+
+export const collections = sqliteTable('collections', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  description: text('description'),
+  chunking: text('chunking', { mode: 'json' }).$type<
+    Partial<ChunkingOptions>
+  >(),
+  createdAt: text('createdAt').notNull(),
 });
+
+export const collectionFiles = sqliteTable('collectionFiles', {
+  id: integer('id').primaryKey(),
+  collectionId: text('collectionId').notNull(),
+  fileId: text('fileId').notNull(),
+  name: text('name').notNull(),
+  createdAt: text('createdAt').notNull(),
+});
+
+export const fileChunks = sqliteTable(
+  'fileChunks',
+  {
+    id: integer('id').primaryKey(),
+    fileId: text('fileId').notNull(),
+    chunkIndex: integer('chunkIndex').notNull(),
+    content: text('content').notNull(),
+    metadata: text('metadata', { mode: 'json' }).$type<Record<string, any>>(),
+    embedding: blob('embedding', { mode: 'buffer' }).notNull(),
+    embeddingModel: text('embeddingModel').notNull(),
+  },
+  (table) => ({
+    fileIdIdx: index('fileChunks_fileId_idx').on(table.fileId),
+  }),
+);
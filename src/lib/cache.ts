@@ -0,0 +1,203 @@
+import { getCacheConfig } from '../config';
+import type { WebPage } from '../utils/webPage';
+import type { SearxngInfobox, SearxngSearchResult } from './searxng';
+import type { TranscriptSegment } from './youtube';
+import type { RedditThread } from './reddit';
+
+interface CacheEntry<T> {
+  value: T;
+  expires: number;
+}
+
+export interface CacheStats {
+  name: string;
+  size: number;
+  maxEntries: number;
+  ttl: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+/* A least recently used cache whose entries also expire after a TTL. Options are read from the config on every write, so changes apply without a restart */
+export class Cache<T> {
+  name: string;
+  private getOptions: () => { ttl: number; maxEntries: number };
+  private entries = new Map<string, CacheEntry<T>>();
+  private pending = new Map<string, Promise<T>>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    name: string,
+    getOptions: () => { ttl: number; maxEntries: number },
+  ) {
+    this.name = name;
+    this.getOptions = getOptions;
+  }
+
+  get(key: string) {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (entry.expires <= Date.now()) {
+      this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+
+    return entry.value;
+  }
+
+  set(key: string, value: T) {
+    const { ttl, maxEntries } = this.getOptions();
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: Date.now() + ttl * 1000 });
+
+    while (this.entries.size > maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+      this.evictions++;
+    }
+  }
+
+  /* Concurrent calls for the same key share one call of fn. Errors are not cached */
+  async getOrSet(key: string, fn: () => Promise<T>) {
+    if (!getCacheConfig().enabled) {
+      return fn();
+    }
+
+    const cached = this.get(key);
+
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const pending = this.pending.get(key);
+
+    if (pending) {
+      return pending;
+    }
+
+    const promise = fn()
+      .then((value) => {
+        this.set(key, value);
+        return value;
+      })
+      .finally(() => this.pending.delete(key));
+
+    this.pending.set(key, promise);
+
+    return promise;
+  }
+
+  delete(predicate: (key: string) => boolean) {
+    let deleted = 0;
+
+    for (const key of [...this.entries.keys()]) {
+      if (predicate(key)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  clear() {
+    const deleted = this.entries.size;
+    this.entries.clear();
+    return deleted;
+  }
+
+  stats(): CacheStats {
+    const { ttl, maxEntries } = this.getOptions();
+
+    return {
+      name: this.name,
+      size: this.entries.size,
+      maxEntries,
+      ttl,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+}
+
+export const normalizeQuery = (query: string) =>
+  query.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/* Drops the fragment and sorts the query parameters, so the same page is cached once */
+export const normalizeUrl = (url: string) => {
+  try {
+    const parsedUrl = new URL(url);
+
+    parsedUrl.hash = '';
+    parsedUrl.searchParams.sort();
+
+    return parsedUrl.toString();
+  } catch {
+    return url;
+  }
+};
+
+/* Search keys start with the normalized query, so every search for a query can be invalidated at once */
+export const getSearchCacheKey = (query: string, opts: object = {}) =>
+  `${normalizeQuery(query)}\n${JSON.stringify(
+    Object.entries(opts)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => [
+        key,
+        Array.isArray(value) ? [...value].sort() : value,
+      ]),
+  )}`;
+
+export const isSearchCacheKeyFor = (key: string, query: string) =>
+  key.split('\n')[0] === normalizeQuery(query);
+
+export const searchCache = new Cache<{
+  results: SearxngSearchResult[];
+  suggestions: string[];
+  infoboxes: SearxngInfobox[];
+}>('search', () => ({
+  ttl: getCacheConfig().searchTtl,
+  maxEntries: getCacheConfig().maxSearchEntries,
+}));
+
+export const pageCache = new Cache<WebPage>('pages', () => ({
+  ttl: getCacheConfig().pageTtl,
+  maxEntries: getCacheConfig().maxPageEntries,
+}));
+
+export const transcriptCache = new Cache<TranscriptSegment[]>(
+  'transcripts',
+  () => ({
+    ttl: getCacheConfig().pageTtl,
+    maxEntries: getCacheConfig().maxPageEntries,
+  }),
+);
+
+export const redditThreadCache = new Cache<RedditThread>(
+  'redditThreads',
+  () => ({
+    ttl: getCacheConfig().pageTtl,
+    maxEntries: getCacheConfig().maxPageEntries,
+  }),
+);
+
+export const caches: Record<string, Cache<any>> = {
+  search: searchCache,
+  pages: pageCache,
+  transcripts: transcriptCache,
+  redditThreads: redditThreadCache,
+};
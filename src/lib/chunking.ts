@@ -0,0 +1,301 @@
+import type { Embeddings } from '@langchain/core/embeddings';
+import {
+  RecursiveCharacterTextSplitter,
+  SupportedTextSplitterLanguage,
+} from '@langchain/textsplitters';
+import { getChunkingConfig, getSemanticBreakpointPercentile } from '../config';
+import computeSimilarity from '../utils/computeSimilarity';
+
+export const chunkingStrategies = [
+  'recursive',
+  'token',
+  'sentence',
+  'markdown',
+  'semantic',
+] as const;
+
+export type ChunkingStrategy = (typeof chunkingStrategies)[number];
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy;
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+interface SplitContext {
+  language?: SupportedTextSplitterLanguage;
+  embeddings?: Embeddings;
+}
+
+let tokenizer:
+  | { encode: (text: string) => number[]; decode: (tokens: number[]) => string }
+  | undefined;
+
+const isPositiveInteger = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/* Parses chunking options sent to the API. Returns null if any of them is invalid */
+export const parseChunkingOptions = (input: {
+  strategy?: unknown;
+  chunkSize?: unknown;
+  chunkOverlap?: unknown;
+}): Partial<ChunkingOptions> | null => {
+  const options: Partial<ChunkingOptions> = {};
+
+  if (input.strategy !== undefined && input.strategy !== '') {
+    if (!chunkingStrategies.includes(input.strategy as ChunkingStrategy)) {
+      return null;
+    }
+
+    options.strategy = input.strategy as ChunkingStrategy;
+  }
+
+  if (input.chunkSize !== undefined && input.chunkSize !== '') {
+    const chunkSize = Number(input.chunkSize);
+
+    if (!isPositiveInteger(chunkSize)) {
+      return null;
+    }
+
+    options.chunkSize = chunkSize;
+  }
+
+  if (input.chunkOverlap !== undefined && input.chunkOverlap !== '') {
+    const chunkOverlap = Number(input.chunkOverlap);
+
+    if (!isPositiveInteger(chunkOverlap) && chunkOverlap !== 0) {
+      return null;
+    }
+
+    options.chunkOverlap = chunkOverlap;
+  }
+
+  return options;
+};
+
+export const getChunkingOptions = (
+  target: 'uploads' | 'webPages',
+  ...overrides: (Partial<ChunkingOptions> | null | undefined)[]
+): ChunkingOptions => {
+  const options = Object.assign(
+    getChunkingConfig(target),
+    ...overrides.filter(Boolean),
+  ) as ChunkingOptions;
+
+  /* An overlap that is as large as the chunks would never move forward */
+  return {
+    ...options,
+    chunkOverlap: Math.min(
+      options.chunkOverlap,
+      Math.floor(options.chunkSize / 2),
+    ),
+  };
+};
+
+const getRecursiveSplitter = (
+  options: ChunkingOptions,
+  language?: SupportedTextSplitterLanguage,
+) =>
+  language
+    ? RecursiveCharacterTextSplitter.fromLanguage(language, {
+        chunkSize: options.chunkSize,
+        chunkOverlap: options.chunkOverlap,
+      })
+    : new RecursiveCharacterTextSplitter({
+        chunkSize: options.chunkSize,
+        chunkOverlap: options.chunkOverlap,
+      });
+
+const splitTokens = async (text: string, options: ChunkingOptions) => {
+  if (!tokenizer) {
+    const { getEncoding } = await import('js-tiktoken');
+    tokenizer = getEncoding('cl100k_base');
+  }
+
+  const tokens = tokenizer.encode(text);
+  const chunks: string[] = [];
+
+  for (
+    let i = 0;
+    i < tokens.length;
+    i += options.chunkSize - options.chunkOverlap
+  ) {
+    chunks.push(tokenizer.decode(tokens.slice(i, i + options.chunkSize)));
+
+    if (i + options.chunkSize >= tokens.length) break;
+  }
+
+  return chunks;
+};
+
+/* Sentences keep their trailing whitespace, so joined sentences are still a substring of the text */
+const getSentences = async (text: string, options: ChunkingOptions) => {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+  const splitter = getRecursiveSplitter({ ...options, chunkOverlap: 0 });
+
+  const sentences: string[] = [];
+
+  for (const { segment } of segmenter.segment(text)) {
+    if (segment.length > options.chunkSize) {
+      sentences.push(...(await splitter.splitText(segment)));
+    } else {
+      sentences.push(segment);
+    }
+  }
+
+  return sentences;
+};
+
+const mergeSentences = (sentences: string[], options: ChunkingOptions) => {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const sentence of sentences) {
+    if (current.length > 0 && length + sentence.length > options.chunkSize) {
+      chunks.push(current.join(''));
+
+      const overlap: string[] = [];
+      let overlapLength = 0;
+
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (overlapLength + current[i].length > options.chunkOverlap) break;
+
+        overlap.unshift(current[i]);
+        overlapLength += current[i].length;
+      }
+
+      current = overlap;
+      length = overlapLength;
+    }
+
+    current.push(sentence);
+    length += sentence.length;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current.join(''));
+  }
+
+  return chunks;
+};
+
+/* Splits before every heading, except inside fenced code blocks */
+const getMarkdownSections = (text: string) => {
+  const sections: string[] = [];
+  let current: string[] = [];
+  let inCodeBlock = false;
+
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    if (!inCodeBlock && /^#{1,6}\s/.test(line) && current.length > 0) {
+      sections.push(current.join('\n'));
+      current = [];
+    }
+
+    current.push(line);
+  }
+
+  sections.push(current.join('\n'));
+
+  return sections;
+};
+
+const splitMarkdown = async (text: string, options: ChunkingOptions) => {
+  const splitter = getRecursiveSplitter(options, 'markdown');
+  const chunks: string[] = [];
+
+  for (const section of getMarkdownSections(text)) {
+    if (section.length <= options.chunkSize) {
+      chunks.push(section);
+    } else {
+      chunks.push(...(await splitter.splitText(section)));
+    }
+  }
+
+  return chunks;
+};
+
+/* Starts a new chunk where the meaning shifts the most between two sentences */
+const splitSemantic = async (
+  text: string,
+  options: ChunkingOptions,
+  embeddings: Embeddings,
+) => {
+  const sentences = await getSentences(text, options);
+
+  if (sentences.length < 3) {
+    return mergeSentences(sentences, { ...options, chunkOverlap: 0 });
+  }
+
+  const sentenceEmbeddings = await embeddings.embedDocuments(sentences);
+
+  const similarities = sentences
+    .slice(1)
+    .map((_, i) =>
+      computeSimilarity(sentenceEmbeddings[i], sentenceEmbeddings[i + 1]),
+    );
+
+  const sortedSimilarities = [...similarities].sort((a, b) => a - b);
+  const breakpoint =
+    sortedSimilarities[
+      Math.floor(
+        ((100 - getSemanticBreakpointPercentile()) / 100) *
+          (sortedSimilarities.length - 1),
+      )
+    ];
+
+  const chunks: string[] = [];
+  let current = sentences[0];
+
+  similarities.forEach((similarity, i) => {
+    const sentence = sentences[i + 1];
+
+    if (
+      similarity <= breakpoint ||
+      current.length + sentence.length > options.chunkSize
+    ) {
+      chunks.push(current);
+      current = sentence;
+    } else {
+      current += sentence;
+    }
+  });
+
+  chunks.push(current);
+
+  return chunks;
+};
+
+export const splitText = async (
+  text: string,
+  options: ChunkingOptions,
+  context: SplitContext = {},
+) => {
+  let chunks: string[];
+
+  /* Source code is always split along its functions and classes */
+  if (
+    options.strategy === 'recursive' ||
+    (context.language && context.language !== 'markdown')
+  ) {
+    chunks = await getRecursiveSplitter(options, context.language).splitText(
+      text,
+    );
+  } else if (options.strategy === 'token') {
+    chunks = await splitTokens(text, options);
+  } else if (options.strategy === 'markdown') {
+    chunks = await splitMarkdown(text, options);
+  } else if (options.strategy === 'semantic' && context.embeddings) {
+    chunks = await splitSemantic(text, options, context.embeddings);
+  } else {
+    chunks = mergeSentences(await getSentences(text, options), options);
+  }
+
+  return chunks
+    .map((chunk) => chunk.trim())
+    .filter((chunk) => chunk.length > 0);
+};
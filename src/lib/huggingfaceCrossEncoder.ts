@@ -0,0 +1,60 @@
+import { chunkArray } from '@langchain/core/utils/chunk_array';
+import type {
+  PreTrainedModel,
+  PreTrainedTokenizer,
+} from '@xenova/transformers' with { 'resolution-mode': 'import' };
+
+export interface HuggingFaceCrossEncoderParams {
+  model: string;
+
+  batchSize?: number;
+}
+
+/* Scores query and document pairs together, which ranks relevance better than comparing separately computed embeddings */
+export class HuggingFaceCrossEncoder implements HuggingFaceCrossEncoderParams {
+  model = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+  batchSize = 16;
+
+  private tokenizerPromise: Promise<PreTrainedTokenizer>;
+
+  private modelPromise: Promise<PreTrainedModel>;
+
+  constructor(fields?: Partial<HuggingFaceCrossEncoderParams>) {
+    this.model = fields?.model ?? this.model;
+    this.batchSize = fields?.batchSize ?? this.batchSize;
+  }
+
+  async rank(query: string, texts: string[]): Promise<number[]> {
+    const scores: number[] = [];
+
+    for (const batch of chunkArray(texts, this.batchSize)) {
+      scores.push(...(await this.runCrossEncoder(query, batch)));
+    }
+
+    return scores;
+  }
+
+  private async runCrossEncoder(query: string, texts: string[]) {
+    const { AutoTokenizer, AutoModelForSequenceClassification } = await import(
+      '@xenova/transformers'
+    );
+
+    const tokenizer = await (this.tokenizerPromise ??=
+      AutoTokenizer.from_pretrained(this.model));
+    const model = await (this.modelPromise ??=
+      AutoModelForSequenceClassification.from_pretrained(this.model));
+
+    const inputs = tokenizer(new Array(texts.length).fill(query), {
+      text_pair: texts,
+      padding: true,
+      truncation: true,
+    });
+
+    const { logits } = await model(inputs);
+
+    return (logits.tolist() as number[][]).map(
+      ([logit]) => 1 / (1 + Math.exp(-logit)),
+    );
+  }
+}
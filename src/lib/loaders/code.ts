@@ -0,0 +1,54 @@
+import fs from 'fs';
+import type { SupportedTextSplitterLanguage } from '@langchain/textsplitters';
+import type { FileSection } from '.';
+
+export const codeLanguages: Record<
+  string,
+  SupportedTextSplitterLanguage | null
+> = {
+  js: 'js',
+  jsx: 'js',
+  mjs: 'js',
+  cjs: 'js',
+  ts: 'js',
+  tsx: 'js',
+  py: 'python',
+  go: 'go',
+  java: 'java',
+  kt: 'java',
+  c: 'cpp',
+  h: 'cpp',
+  cc: 'cpp',
+  cpp: 'cpp',
+  hpp: 'cpp',
+  cs: 'java',
+  php: 'php',
+  rb: 'ruby',
+  rs: 'rust',
+  scala: 'scala',
+  swift: 'swift',
+  sol: 'sol',
+  proto: 'proto',
+  rst: 'rst',
+  tex: 'latex',
+  sh: null,
+  sql: null,
+  json: null,
+  yaml: null,
+  yml: null,
+  toml: null,
+  css: null,
+};
+
+/* Source files are kept whole and split along the language's functions and classes */
+const loadCode = async (
+  filePath: string,
+  extension: string,
+): Promise<FileSection[]> => [
+  {
+    text: fs.readFileSync(filePath, 'utf-8'),
+    ...(codeLanguages[extension] && { language: codeLanguages[extension] }),
+  },
+];
+
+export default loadCode;
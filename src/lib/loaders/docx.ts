@@ -0,0 +1,12 @@
+import mammoth from 'mammoth';
+import { htmlToSections } from './html';
+import type { FileSection } from '.';
+
+/* Mammoth keeps the document's headings in its HTML output, which the plain text loader drops */
+const loadDocx = async (filePath: string): Promise<FileSection[]> => {
+  const { value: html } = await mammoth.convertToHtml({ path: filePath });
+
+  return htmlToSections(html);
+};
+
+export default loadDocx;
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { htmlToSections } from './html';
+import type { FileSection } from '.';
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  removeNSPrefix: true,
+});
+
+const toArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/* Chapters are read in the order of the book's spine */
+const loadEpub = async (filePath: string): Promise<FileSection[]> => {
+  const zip = await JSZip.loadAsync(fs.readFileSync(filePath));
+
+  const container = xmlParser.parse(
+    await zip.file('META-INF/container.xml')!.async('string'),
+  );
+  const packagePath: string = toArray(
+    container.container.rootfiles.rootfile,
+  )[0]['full-path'];
+
+  const opf = xmlParser.parse(await zip.file(packagePath)!.async('string'));
+  const manifest = new Map<string, string>(
+    toArray<any>(opf.package.manifest.item).map((item) => [item.id, item.href]),
+  );
+
+  const sections: FileSection[] = [];
+  let chapter = 0;
+
+  for (const itemRef of toArray<any>(opf.package.spine.itemref)) {
+    const href = manifest.get(itemRef.idref);
+
+    if (!href) continue;
+
+    const chapterFile = zip.file(
+      path.posix.join(
+        path.posix.dirname(packagePath),
+        decodeURIComponent(href),
+      ),
+    );
+
+    if (!chapterFile) continue;
+
+    const chapterSections = htmlToSections(await chapterFile.async('string'));
+
+    if (chapterSections.length === 0) continue;
+
+    chapter++;
+
+    sections.push(
+      ...chapterSections.map((section) => ({
+        ...section,
+        headings: section.headings ?? [`Chapter ${chapter}`],
+      })),
+    );
+  }
+
+  return sections;
+};
+
+export default loadEpub;
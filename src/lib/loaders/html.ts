@@ -0,0 +1,161 @@
+import fs from 'fs';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import type { FileSection } from '.';
+
+/* Text of these elements flows into the surrounding paragraph, every other element starts a new one */
+const inlineTags = new Set([
+  'a',
+  'abbr',
+  'b',
+  'bdi',
+  'bdo',
+  'cite',
+  'code',
+  'data',
+  'del',
+  'dfn',
+  'em',
+  'font',
+  'i',
+  'ins',
+  'kbd',
+  'label',
+  'mark',
+  'q',
+  's',
+  'samp',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'time',
+  'u',
+  'var',
+  'wbr',
+]);
+
+const skippedTags = new Set([
+  'head',
+  'noscript',
+  'script',
+  'style',
+  'template',
+]);
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ');
+
+/* Every heading starts a new section, which keeps the path of headings above it. The text of every other element belongs to the section it is in */
+export const htmlToSections = (
+  html: string,
+  parentHeadings: string[] = [],
+): FileSection[] => {
+  const dom = new JSDOM(html, { virtualConsole: new VirtualConsole() });
+  const { Node } = dom.window;
+
+  const sections: FileSection[] = [];
+  const headings: string[] = [];
+  let paragraphs: string[] = [];
+  let inlineText = '';
+
+  const pushParagraph = () => {
+    const text = inlineText
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .join('\n');
+
+    if (text.length > 0) {
+      paragraphs.push(text);
+    }
+
+    inlineText = '';
+  };
+
+  const pushSection = () => {
+    pushParagraph();
+
+    const headingPath = [
+      ...parentHeadings,
+      ...headings.filter((heading) => heading.length > 0),
+    ];
+
+    if (paragraphs.length > 0) {
+      sections.push({
+        text: paragraphs.join('\n\n'),
+        ...(headingPath.length > 0 && { headings: headingPath }),
+      });
+    }
+
+    paragraphs = [];
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inlineText += normalizeWhitespace(node.textContent ?? '');
+      return;
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (skippedTags.has(tag)) return;
+
+    if (tag === 'br') {
+      inlineText += '\n';
+      return;
+    }
+
+    if (/^h[1-6]$/.test(tag)) {
+      const text = normalizeWhitespace(element.textContent ?? '').trim();
+
+      if (text.length === 0) return;
+
+      pushSection();
+
+      const level = parseInt(tag[1]);
+      headings.splice(level - 1);
+
+      while (headings.length < level - 1) {
+        headings.push('');
+      }
+
+      headings.push(text);
+      return;
+    }
+
+    /* Preformatted text keeps its line breaks and indentation */
+    if (tag === 'pre') {
+      pushParagraph();
+
+      const text = element.textContent?.trim() ?? '';
+
+      if (text.length > 0) {
+        paragraphs.push(text);
+      }
+      return;
+    }
+
+    const isBlock = !inlineTags.has(tag);
+
+    if (isBlock) pushParagraph();
+
+    element.childNodes.forEach(walk);
+
+    if (isBlock) pushParagraph();
+  };
+
+  walk(dom.window.document.body);
+  pushSection();
+
+  dom.window.close();
+
+  return sections;
+};
+
+const loadHtml = async (filePath: string): Promise<FileSection[]> =>
+  htmlToSections(fs.readFileSync(filePath, 'utf-8'));
+
+export default loadHtml;
@@ -0,0 +1,20 @@
+import fs from 'fs';
+import { recognizeImage } from '../ocr';
+import { isOcrEnabled } from '../../config';
+import type { FileSection } from '.';
+
+const loadImage = async (filePath: string): Promise<FileSection[]> => {
+  if (!isOcrEnabled()) {
+    return [{ text: '', missingText: true }];
+  }
+
+  const { text, confidence } = await recognizeImage(fs.readFileSync(filePath));
+
+  return [
+    text.length > 0
+      ? { text, ocrConfidence: confidence }
+      : { text: '', missingText: true },
+  ];
+};
+
+export default loadImage;
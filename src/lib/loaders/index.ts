@@ -0,0 +1,75 @@
+import path from 'path';
+import type { SupportedTextSplitterLanguage } from '@langchain/textsplitters';
+import loadPdf from './pdf';
+import loadDocx from './docx';
+import loadText from './text';
+import loadMarkdown from './markdown';
+import loadHtml from './html';
+import loadSpreadsheet from './spreadsheet';
+import loadPptx from './pptx';
+import loadEpub from './epub';
+import loadImage from './image';
+import loadCode, { codeLanguages } from './code';
+
+export interface FileSection {
+  text: string;
+  page?: number;
+  headings?: string[];
+  language?: SupportedTextSplitterLanguage;
+  ocrConfidence?: number;
+  /* A scanned page or image whose text could not be read, its text is empty */
+  missingText?: boolean;
+}
+
+const loaders: Record<
+  string,
+  (filePath: string, extension: string) => Promise<FileSection[]>
+> = {
+  pdf: loadPdf,
+  docx: loadDocx,
+  txt: loadText,
+  md: loadMarkdown,
+  markdown: loadMarkdown,
+  html: loadHtml,
+  htm: loadHtml,
+  csv: loadSpreadsheet,
+  tsv: loadSpreadsheet,
+  xlsx: loadSpreadsheet,
+  xls: loadSpreadsheet,
+  ods: loadSpreadsheet,
+  pptx: loadPptx,
+  epub: loadEpub,
+  png: loadImage,
+  jpg: loadImage,
+  jpeg: loadImage,
+  ...Object.fromEntries(
+    Object.keys(codeLanguages).map((extension) => [extension, loadCode]),
+  ),
+};
+
+export const supportedExtensions = Object.keys(loaders);
+
+const imageExtensions = ['png', 'jpg', 'jpeg'];
+
+export const getFileExtension = (fileName: string) =>
+  path.extname(fileName).slice(1).toLowerCase();
+
+export const isSupportedFile = (fileName: string) =>
+  supportedExtensions.includes(getFileExtension(fileName));
+
+export const isImageFile = (fileName: string) =>
+  imageExtensions.includes(getFileExtension(fileName));
+
+/* The loader is picked by the file extension, browsers send many of these formats as application/octet-stream */
+export const loadFile = async (
+  file: Express.Multer.File,
+): Promise<FileSection[]> => {
+  const extension = getFileExtension(file.originalname);
+  const loader = loaders[extension];
+
+  if (!loader) {
+    throw new Error(`Unsupported file type: ${extension}`);
+  }
+
+  return loader(file.path, extension);
+};
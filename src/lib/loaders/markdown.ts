@@ -0,0 +1,58 @@
+import fs from 'fs';
+import type { FileSection } from '.';
+
+const headingRegex = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+const loadMarkdown = async (filePath: string): Promise<FileSection[]> => {
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+
+  const sections: FileSection[] = [];
+  const headings: string[] = [];
+  let sectionLines: string[] = [];
+  let inCodeBlock = false;
+
+  const pushSection = () => {
+    const text = sectionLines.join('\n').trim();
+    const headingPath = headings.filter((heading) => heading.length > 0);
+
+    if (text.length > 0) {
+      sections.push({
+        text,
+        language: 'markdown',
+        ...(headingPath.length > 0 && { headings: headingPath }),
+      });
+    }
+
+    sectionLines = [];
+  };
+
+  for (const line of lines) {
+    if (line.trimStart().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const match = inCodeBlock ? null : line.match(headingRegex);
+
+    if (!match) {
+      sectionLines.push(line);
+      continue;
+    }
+
+    pushSection();
+
+    const level = match[1].length;
+    headings.splice(level - 1);
+
+    while (headings.length < level - 1) {
+      headings.push('');
+    }
+
+    headings.push(match[2]);
+  }
+
+  pushSection();
+
+  return sections;
+};
+
+export default loadMarkdown;
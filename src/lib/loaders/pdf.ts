@@ -0,0 +1,66 @@
+import { PDFLoader } from '@langchain/community/document_loaders/fs/pdf';
+import { getPdfPageImages } from './pdfImages';
+import { recognizeImage } from '../ocr';
+import { isOcrEnabled } from '../../config';
+import type { FileSection } from '.';
+
+/* Pages with less text than this have no real text layer, they are usually scans */
+const minPageTextLength = 20;
+
+const loadPdf = async (filePath: string): Promise<FileSection[]> => {
+  const loader = new PDFLoader(filePath);
+  const docs = await loader.load();
+
+  const textSections = new Map<number, FileSection>(
+    docs.map((doc) => [
+      doc.metadata.loc.pageNumber,
+      { text: doc.pageContent, page: doc.metadata.loc.pageNumber },
+    ]),
+  );
+
+  const hasTextLayer = (pageNumber: number) =>
+    (textSections.get(pageNumber)?.text.trim().length ?? 0) >=
+    minPageTextLength;
+
+  /* PDFLoader skips pages without any text, so every page of the file is checked. Pages without images are blank */
+  const pageImages = await getPdfPageImages(
+    filePath,
+    (pageNumber) => !hasTextLayer(pageNumber),
+  );
+
+  for (const [pageNumber, images] of pageImages) {
+    if (images.length === 0) continue;
+
+    const results = [];
+
+    if (isOcrEnabled()) {
+      for (const image of images) {
+        results.push(await recognizeImage(image));
+      }
+    }
+
+    const recognized = results.filter((result) => result.text.length > 0);
+
+    if (recognized.length === 0) {
+      if (!textSections.has(pageNumber)) {
+        textSections.set(pageNumber, {
+          text: '',
+          page: pageNumber,
+          missingText: true,
+        });
+      }
+    } else {
+      textSections.set(pageNumber, {
+        text: recognized.map((result) => result.text).join('\n\n'),
+        page: pageNumber,
+        ocrConfidence: Math.min(
+          ...recognized.map((result) => result.confidence),
+        ),
+      });
+    }
+  }
+
+  return Array.from(textSections.values()).sort((a, b) => a.page - b.page);
+};
+
+export default loadPdf;
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import { PNG } from 'pngjs';
+import type { PDFImage } from 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js';
+
+const imageKinds = {
+  GRAYSCALE_1BPP: 1,
+  RGB_24BPP: 2,
+  RGBA_32BPP: 3,
+};
+
+/* Smaller images are logos and icons, not scanned text */
+const minImageArea = 200 * 200;
+
+const toPng = (image: PDFImage) => {
+  const png = new PNG({ width: image.width, height: image.height });
+  const rowBytes = (image.width + 7) >> 3;
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const i = y * image.width + x;
+      let r: number, g: number, b: number;
+      let a = 255;
+
+      if (image.kind === imageKinds.GRAYSCALE_1BPP) {
+        const bit = (image.data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        r = g = b = bit ? 255 : 0;
+      } else if (image.kind === imageKinds.RGB_24BPP) {
+        r = image.data[i * 3];
+        g = image.data[i * 3 + 1];
+        b = image.data[i * 3 + 2];
+      } else {
+        r = image.data[i * 4];
+        g = image.data[i * 4 + 1];
+        b = image.data[i * 4 + 2];
+        a = image.data[i * 4 + 3];
+      }
+
+      png.data[i * 4] = r;
+      png.data[i * 4 + 1] = g;
+      png.data[i * 4 + 2] = b;
+      png.data[i * 4 + 3] = a;
+    }
+  }
+
+  return PNG.sync.write(png);
+};
+
+/* Scanned pages are stored as images, they are read with the same pdf.js build PDFLoader uses */
+export const getPdfPageImages = async (
+  filePath: string,
+  shouldReadPage: (pageNumber: number) => boolean,
+) => {
+  const { default: pdfjs } = await import(
+    'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js'
+  );
+
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(fs.readFileSync(filePath)),
+    nativeImageDecoderSupport: 'none',
+    disableFontFace: true,
+  });
+
+  const pageImages = new Map<number, Buffer[]>();
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    if (!shouldReadPage(pageNumber)) continue;
+
+    const page = await pdf.getPage(pageNumber);
+    const operatorList = await page.getOperatorList();
+    const images: Buffer[] = [];
+
+    operatorList.fnArray.forEach((fn: number, i: number) => {
+      let image: PDFImage | undefined;
+
+      if (fn === pdfjs.OPS.paintImageXObject) {
+        const objId = operatorList.argsArray[i][0];
+        image = objId.startsWith('g_')
+          ? page.commonObjs.get(objId)
+          : page.objs.get(objId);
+      } else if (fn === pdfjs.OPS.paintInlineImageXObject) {
+        image = operatorList.argsArray[i][0];
+      }
+
+      if (image?.data && image.width * image.height >= minImageArea) {
+        images.push(toPng(image));
+      }
+    });
+
+    pageImages.set(pageNumber, images);
+  }
+
+  await pdf.destroy();
+
+  return pageImages;
+};
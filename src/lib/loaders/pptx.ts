@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { decodeXmlEntities } from './xml';
+import type { FileSection } from '.';
+
+const paragraphRegex = /<a:p>([\s\S]*?)<\/a:p>/g;
+const textRegex = /<a:t>([\s\S]*?)<\/a:t>/g;
+
+/* Namespace prefixes are kept, slide IDs have both an id and an r:id attribute */
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+});
+
+const toArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const readXml = async (zip: JSZip, filePath: string) => {
+  const file = zip.file(filePath);
+  return file ? xmlParser.parse(await file.async('string')) : undefined;
+};
+
+/* Relationships of a part are stored in _rels/<part>.rels next to it, their targets are relative to the part */
+const getRelationships = async (zip: JSZip, partPath: string) => {
+  const partDir = path.posix.dirname(partPath);
+  const rels = await readXml(
+    zip,
+    path.posix.join(partDir, '_rels', `${path.posix.basename(partPath)}.rels`),
+  );
+
+  return toArray<any>(rels?.Relationships?.Relationship)
+    .filter((rel) => rel.TargetMode !== 'External')
+    .map((rel) => ({
+      id: rel.Id as string,
+      type: rel.Type as string,
+      target: rel.Target.startsWith('/')
+        ? rel.Target.slice(1)
+        : path.posix.join(partDir, rel.Target),
+    }));
+};
+
+const extractText = (xml: string) =>
+  Array.from(xml.matchAll(paragraphRegex))
+    .map(([, paragraph]) =>
+      Array.from(paragraph.matchAll(textRegex))
+        .map(([, text]) => decodeXmlEntities(text))
+        .join(''),
+    )
+    .filter((paragraph) => paragraph.trim().length > 0)
+    .join('\n');
+
+/* Every slide is a section, followed by its speaker notes. Slides are read in the order of the presentation, which can differ from their file names */
+const loadPptx = async (filePath: string): Promise<FileSection[]> => {
+  const zip = await JSZip.loadAsync(fs.readFileSync(filePath));
+
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = await readXml(zip, presentationPath);
+  const presentationRels = await getRelationships(zip, presentationPath);
+
+  const slidePaths = toArray<any>(
+    presentation?.['p:presentation']?.['p:sldIdLst']?.['p:sldId'],
+  )
+    .map(
+      (slideId) =>
+        presentationRels.find((rel) => rel.id === slideId['r:id'])?.target,
+    )
+    .filter((slidePath) => slidePath && zip.file(slidePath));
+
+  const sections: FileSection[] = [];
+
+  for (const [i, slidePath] of slidePaths.entries()) {
+    const slideText = extractText(await zip.file(slidePath)!.async('string'));
+
+    const notesPath = (await getRelationships(zip, slidePath)).find((rel) =>
+      rel.type.endsWith('/notesSlide'),
+    )?.target;
+    const notesFile = notesPath && zip.file(notesPath);
+    const notesText = notesFile
+      ? extractText(await notesFile.async('string'))
+      : '';
+
+    const text = [slideText, notesText && `Notes:\n${notesText}`]
+      .filter((part) => part.length > 0)
+      .join('\n\n');
+
+    if (text.length > 0) {
+      sections.push({ text, page: i + 1 });
+    }
+  }
+
+  return sections;
+};
+
+export default loadPptx;
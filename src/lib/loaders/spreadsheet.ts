@@ -0,0 +1,50 @@
+import XLSX from 'xlsx';
+import type { FileSection } from '.';
+
+const isFilled = (value: unknown) => String(value).trim().length > 0;
+
+/* Every row is written with its column names, so a chunk of rows can be understood on its own. Empty cells and rows are left out */
+const loadSpreadsheet = async (filePath: string): Promise<FileSection[]> => {
+  const workbook = XLSX.readFile(filePath);
+
+  return workbook.SheetNames.map((sheetName) => {
+    const rows = XLSX.utils
+      .sheet_to_json<any[]>(workbook.Sheets[sheetName], {
+        header: 1,
+        blankrows: false,
+        defval: '',
+        raw: false,
+      })
+      .filter((row) => row.some(isFilled));
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const [header, ...body] = rows;
+    const columns = header.map((column, i) =>
+      isFilled(column) ? String(column).trim() : `Column ${i + 1}`,
+    );
+
+    const text = (body.length > 0 ? body : [header])
+      .map((row) =>
+        row
+          .map((value, i) => ({ value: String(value).trim(), i }))
+          .filter(({ value }) => value.length > 0)
+          .map(({ value, i }) =>
+            body.length > 0
+              ? `${columns[i] ?? `Column ${i + 1}`}: ${value}`
+              : value,
+          )
+          .join(' | '),
+      )
+      .join('\n');
+
+    return {
+      text,
+      ...(workbook.SheetNames.length > 1 && { headings: [sheetName] }),
+    };
+  }).filter((section) => section !== null && section.text.length > 0);
+};
+
+export default loadSpreadsheet;
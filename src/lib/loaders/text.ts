@@ -0,0 +1,8 @@
+import fs from 'fs';
+import type { FileSection } from '.';
+
+const loadText = async (filePath: string): Promise<FileSection[]> => [
+  { text: fs.readFileSync(filePath, 'utf-8') },
+];
+
+export default loadText;
@@ -0,0 +1,41 @@
+import path from 'path';
+import { createWorker, type Worker } from 'tesseract.js';
+import englishData from '@tesseract.js-data/eng';
+import { getOcrLangPath, getOcrLanguages } from '../config';
+
+export interface OcrResult {
+  text: string;
+  confidence: number;
+}
+
+let worker: { languages: string; worker: Promise<Worker> } | null = null;
+
+/* English is bundled so OCR works offline, other languages are downloaded on first use unless LANG_PATH points to them */
+const getWorker = () => {
+  const languages = getOcrLanguages();
+
+  if (worker?.languages !== languages) {
+    worker?.worker.then((oldWorker) => oldWorker.terminate());
+
+    worker = {
+      languages,
+      worker: createWorker(languages.split('+'), 1, {
+        langPath:
+          getOcrLangPath() ||
+          (languages === 'eng' ? englishData.langPath : undefined),
+        gzip: true,
+        cachePath: path.join(process.cwd(), 'data', 'ocr'),
+      }),
+    };
+  }
+
+  return worker.worker;
+};
+
+export const recognizeImage = async (image: Buffer): Promise<OcrResult> => {
+  const {
+    data: { text, confidence },
+  } = await (await getWorker()).recognize(image);
+
+  return { text: text.trim(), confidence };
+};
@@ -0,0 +1,77 @@
+import type { SearchResult } from './searchProviders';
+
+export interface PaperMetadata {
+  authors?: string[];
+  year?: number;
+  venue?: string;
+  doi?: string;
+  arxivId?: string;
+  abstract?: string;
+  pdfUrl?: string;
+}
+
+const doiPattern = /\b(10\.\d{4,9}\/[^\s"<>]+[^\s"<>.,;)\]])/i;
+
+/* New style IDs like 2101.00001v2 and old style ones like hep-th/9901001 */
+const arxivUrlPattern =
+  /arxiv\.org\/(?:abs|pdf)\/((?:\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v\d+)?)/i;
+
+export const getDoi = (text?: string) => text?.match(doiPattern)?.[1];
+
+export const getArxivId = (url?: string) => url?.match(arxivUrlPattern)?.[1];
+
+const getYear = (date?: string) => {
+  const year = date?.match(/\b(1[89]\d{2}|20\d{2})\b/)?.[1];
+  return year ? Number(year) : undefined;
+};
+
+/* Engines send authors either as a list or as one comma separated string */
+const getAuthors = (authors?: string[] | string) => {
+  const list = Array.isArray(authors) ? authors : authors?.split(/,|;| and /);
+  const names = list?.map((author) => author.trim()).filter(Boolean);
+
+  return names && names.length > 0 ? names : undefined;
+};
+
+/* Reads the paper fields SearxNG returns for arXiv, Google Scholar and PubMed results, and falls back to what the URL tells */
+export const getPaperMetadata = (result: SearchResult): PaperMetadata => {
+  const arxivId = getArxivId(result.url) ?? getArxivId(result.pdf_url);
+  const doi = result.doi ?? getDoi(result.url);
+  const abstract = result.content?.trim();
+
+  const metadata: PaperMetadata = {
+    authors: getAuthors(result.authors),
+    year: getYear(result.publishedDate),
+    venue:
+      result.journal ?? result.publisher ?? (arxivId ? 'arXiv' : undefined),
+    doi,
+    arxivId,
+    abstract: abstract || undefined,
+    pdfUrl:
+      result.pdf_url ??
+      (arxivId ? `https://arxiv.org/pdf/${arxivId}` : undefined),
+  };
+
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined),
+  );
+};
+
+/* The full text is read when there is a PDF, otherwise the landing page, which usually has the abstract */
+export const getPaperLink = (
+  metadata: Record<string, any>,
+  readPdf = true,
+): string => (readPdf && metadata.pdfUrl) || metadata.url;
+
+/* A short reference like "Vaswani et al., 2017", empty for documents that are not papers */
+export const getPaperCitation = (metadata: Record<string, any>) => {
+  const authors: string[] = metadata.authors ?? [];
+  const lastName = authors[0]?.split(' ').pop();
+
+  const names =
+    authors.length > 2
+      ? `${lastName} et al.`
+      : authors.map((author) => author.split(' ').pop()).join(' and ');
+
+  return [names, metadata.year].filter(Boolean).join(', ');
+};
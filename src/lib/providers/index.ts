@@ -1,3 +1,4 @@
+import type { Embeddings } from '@langchain/core/embeddings';
 import { loadGroqChatModels } from './groq';
 import { loadOllamaChatModels, loadOllamaEmbeddingsModels } from './ollama';
 import { loadOpenAIChatModels, loadOpenAIEmbeddingsModels } from './openai';
@@ -20,6 +21,12 @@ const embeddingModelProviders = {
   gemini: loadGeminiEmbeddingsModels,
 };
 
+/* The provider/model name of every loaded embedding model, stored with file chunks so vectors of different models are never compared */
+const embeddingModelNames = new WeakMap<Embeddings, string>();
+
+export const getEmbeddingModelName = (embeddings: Embeddings) =>
+  embeddingModelNames.get(embeddings);
+
 export const getAvailableChatModelProviders = async () => {
   const models = {};
 
@@ -43,6 +50,15 @@ export const getAvailableEmbeddingModelProviders = async () => {
     if (Object.keys(providerModels).length > 0) {
       models[provider] = providerModels;
     }
+
+    for (const model in providerModels) {
+      if (!providerModels[model].model) continue;
+
+      embeddingModelNames.set(
+        providerModels[model].model,
+        `${provider}/${model}`,
+      );
+    }
   }
 
   return models;
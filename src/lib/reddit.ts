@@ -0,0 +1,89 @@
+import { safeFetch } from './safeFetch';
+import { redditThreadCache } from './cache';
+
+export interface RedditPost {
+  title: string;
+  body: string;
+  author: string;
+  subreddit: string;
+  score: number;
+  commentCount: number;
+  url: string;
+}
+
+export interface RedditComment {
+  body: string;
+  author: string;
+  score: number;
+  url: string;
+}
+
+export interface RedditThread {
+  post: RedditPost;
+  comments: RedditComment[];
+}
+
+const redditHosts = ['reddit.com', 'www.reddit.com', 'old.reddit.com'];
+
+/* Comments that only say they were removed carry no opinion */
+const removedBodies = ['[deleted]', '[removed]'];
+
+export const getRedditThreadPath = (url: string) => {
+  try {
+    const parsedUrl = new URL(url);
+
+    if (!redditHosts.includes(parsedUrl.hostname)) return null;
+
+    return parsedUrl.pathname.match(/^\/r\/\w+\/comments\/\w+/)?.[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const flattenComments = (children: any[]): any[] =>
+  children
+    .filter((child) => child.kind === 't1')
+    .flatMap((child) => [
+      child.data,
+      ...flattenComments(child.data.replies?.data?.children ?? []),
+    ]);
+
+/* Returns the post and its highest scored comments, from replies at any depth */
+export const getRedditThread = (threadPath: string, maxComments = 8) =>
+  redditThreadCache.getOrSet(threadPath, async (): Promise<RedditThread> => {
+    const res = await safeFetch(
+      `https://www.reddit.com${threadPath}.json?sort=top&limit=100&raw_json=1`,
+      { accept: 'application/json' },
+    );
+
+    const [postListing, commentListing] = JSON.parse(res.data.toString('utf8'));
+    const post = postListing.data.children[0].data;
+
+    const comments = flattenComments(commentListing.data.children)
+      .filter(
+        (comment) =>
+          comment.body &&
+          !removedBodies.includes(comment.body) &&
+          !(comment.stickied && comment.distinguished === 'moderator'),
+      )
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxComments);
+
+    return {
+      post: {
+        title: post.title,
+        body: post.selftext ?? '',
+        author: post.author,
+        subreddit: post.subreddit,
+        score: post.score,
+        commentCount: post.num_comments,
+        url: `https://www.reddit.com${post.permalink}`,
+      },
+      comments: comments.map((comment) => ({
+        body: comment.body,
+        author: comment.author,
+        score: comment.score,
+        url: `https://www.reddit.com${comment.permalink}`,
+      })),
+    };
+  });
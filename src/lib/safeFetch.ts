@@ -0,0 +1,444 @@
+import axios, { AxiosError } from 'axios';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { getFetchConfig } from '../config';
+
+export class FetchError extends Error {
+  code: string;
+  url: string;
+
+  constructor(message: string, code: string, url: string) {
+    super(message);
+    this.name = 'FetchError';
+    this.code = code;
+    this.url = url;
+  }
+}
+
+export class InvalidUrlError extends FetchError {
+  constructor(url: string) {
+    super(`Invalid URL ${url}`, 'INVALID_URL', url);
+    this.name = 'InvalidUrlError';
+  }
+}
+
+export class BlockedAddressError extends FetchError {
+  constructor(url: string, address: string) {
+    super(
+      `Fetching ${url} is not allowed, it resolves to the private address ${address}`,
+      'BLOCKED_ADDRESS',
+      url,
+    );
+    this.name = 'BlockedAddressError';
+  }
+}
+
+export class FetchTimeoutError extends FetchError {
+  constructor(url: string, timeout: number) {
+    super(`Fetching ${url} timed out after ${timeout}ms`, 'FETCH_TIMEOUT', url);
+    this.name = 'FetchTimeoutError';
+  }
+}
+
+export class ResponseTooLargeError extends FetchError {
+  constructor(url: string, maxResponseSize: number) {
+    super(
+      `The response from ${url} is larger than ${maxResponseSize} bytes`,
+      'RESPONSE_TOO_LARGE',
+      url,
+    );
+    this.name = 'ResponseTooLargeError';
+  }
+}
+
+export class TooManyRedirectsError extends FetchError {
+  constructor(url: string, maxRedirects: number) {
+    super(
+      `Fetching ${url} redirected more than ${maxRedirects} times`,
+      'TOO_MANY_REDIRECTS',
+      url,
+    );
+    this.name = 'TooManyRedirectsError';
+  }
+}
+
+export class RobotsDisallowedError extends FetchError {
+  constructor(url: string) {
+    super(
+      `Fetching ${url} is disallowed by robots.txt`,
+      'ROBOTS_DISALLOWED',
+      url,
+    );
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+export class HttpStatusError extends FetchError {
+  status: number;
+
+  constructor(url: string, status: number) {
+    super(`Fetching ${url} failed with status ${status}`, 'HTTP_STATUS', url);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+export interface SafeFetchOptions {
+  accept?: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  maxResponseSize?: number;
+}
+
+export interface SafeFetchResponse {
+  url: string;
+  status: number;
+  contentType: string;
+  data: Buffer;
+}
+
+/* Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges */
+const privateAddresses = new net.BlockList();
+
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([address, prefix]: [string, number]) =>
+  privateAddresses.addSubnet(address, prefix, 'ipv4'),
+);
+
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]: [string, number]) =>
+  privateAddresses.addSubnet(address, prefix, 'ipv6'),
+);
+
+/* IPv4-mapped IPv6 addresses are matched against the IPv4 ranges by the block list */
+export const isPrivateAddress = (address: string) => {
+  const family = net.isIP(address);
+
+  if (family === 0) return false;
+
+  return privateAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const isAllowedHost = (hostname: string) =>
+  getFetchConfig().allowedHosts.includes(hostname.toLowerCase());
+
+const shouldBlockPrivateAddresses = (hostname: string) =>
+  getFetchConfig().blockPrivateAddresses && !isAllowedHost(hostname);
+
+/* Addresses are checked when connecting, so a hostname can't pass the check and then resolve to another address */
+const safeLookup = ((
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (...args: any[]) => void,
+) => {
+  dns.lookup(hostname, options, (err, address, family) => {
+    if (err) return callback(err, address, family);
+
+    if (shouldBlockPrivateAddresses(hostname)) {
+      const addresses = Array.isArray(address)
+        ? address.map((entry) => entry.address)
+        : [address];
+      const blockedAddress = addresses.find(isPrivateAddress);
+
+      if (blockedAddress) {
+        return callback(
+          new BlockedAddressError(hostname, blockedAddress),
+          address,
+          family,
+        );
+      }
+    }
+
+    callback(null, address, family);
+  });
+}) as net.LookupFunction;
+
+const httpAgent = new http.Agent({ lookup: safeLookup });
+const httpsAgent = new https.Agent({ lookup: safeLookup });
+
+const parseUrl = (url: string) => {
+  try {
+    const parsedUrl = new URL(url);
+
+    if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+      throw new InvalidUrlError(url);
+    }
+
+    return parsedUrl;
+  } catch {
+    throw new InvalidUrlError(url);
+  }
+};
+
+const checkUrl = (url: string) => {
+  const parsedUrl = parseUrl(url);
+  const hostname = parsedUrl.hostname.replace(/^\[|\]$/g, '');
+
+  /* IP addresses in the URL are never looked up, so they are checked here */
+  if (
+    net.isIP(hostname) &&
+    isPrivateAddress(hostname) &&
+    shouldBlockPrivateAddresses(hostname)
+  ) {
+    throw new BlockedAddressError(url, hostname);
+  }
+
+  if (hostname === 'localhost' && shouldBlockPrivateAddresses(hostname)) {
+    throw new BlockedAddressError(url, '127.0.0.1');
+  }
+
+  return parsedUrl;
+};
+
+const request = async (
+  url: string,
+  headers: Record<string, string>,
+  timeout: number,
+  maxResponseSize: number,
+) => {
+  try {
+    return await axios.get<ArrayBuffer>(url, {
+      responseType: 'arraybuffer',
+      maxRedirects: 0,
+      maxContentLength: maxResponseSize,
+      timeout,
+      signal: AbortSignal.timeout(timeout),
+      httpAgent,
+      httpsAgent,
+      validateStatus: () => true,
+      headers: {
+        'User-Agent': getFetchConfig().userAgent,
+        ...headers,
+      },
+    });
+  } catch (err) {
+    if (err instanceof FetchError) throw err;
+
+    const cause = (err as AxiosError).cause;
+
+    if (cause instanceof FetchError) {
+      throw cause;
+    }
+
+    if (
+      axios.isCancel(err) ||
+      (err as AxiosError).code === AxiosError.ECONNABORTED ||
+      (err as AxiosError).code === AxiosError.ETIMEDOUT
+    ) {
+      throw new FetchTimeoutError(url, timeout);
+    }
+
+    if (/maxContentLength/.test((err as Error).message)) {
+      throw new ResponseTooLargeError(url, maxResponseSize);
+    }
+
+    throw new FetchError((err as Error).message, 'FETCH_FAILED', url);
+  }
+};
+
+/* Follows redirects one at a time, so every URL in the chain is checked against the address rules and robots.txt. Custom headers like cookies are only sent to the origin of the first URL */
+const fetchWithRedirects = async (
+  url: string,
+  accept: string,
+  headers: Record<string, string>,
+  timeout: number,
+  maxResponseSize: number,
+  checkRobotsTxt: boolean,
+) => {
+  const { maxRedirects } = getFetchConfig();
+  const origin = parseUrl(url).origin;
+  let currentUrl = url;
+
+  for (let redirects = 0; redirects <= maxRedirects; redirects++) {
+    const parsedUrl = checkUrl(currentUrl);
+
+    if (checkRobotsTxt) {
+      const rules = await getRobotsRules(parsedUrl, timeout);
+
+      if (!isAllowedByRobots(rules, parsedUrl.pathname + parsedUrl.search)) {
+        throw new RobotsDisallowedError(currentUrl);
+      }
+    }
+
+    const res = await request(
+      currentUrl,
+      {
+        Accept: accept,
+        ...(parsedUrl.origin === origin && headers),
+      },
+      timeout,
+      maxResponseSize,
+    );
+
+    if (res.status >= 300 && res.status < 400 && res.headers['location']) {
+      currentUrl = new URL(res.headers['location'], currentUrl).toString();
+      continue;
+    }
+
+    return { url: currentUrl, res };
+  }
+
+  throw new TooManyRedirectsError(url, maxRedirects);
+};
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+const robotsCache = new Map<string, { rules: RobotsRule[]; expires: number }>();
+const robotsCacheTtl = 60 * 60 * 1000;
+const maxRobotsCacheSize = 1000;
+
+const toRobotsPattern = (path: string) =>
+  new RegExp(
+    '^' +
+      path
+        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\\\$$/, '$'),
+  );
+
+/* Uses the group of our user agent if there is one, otherwise the * group */
+export const parseRobotsTxt = (robotsTxt: string, userAgent: string) => {
+  const groups: { agents: string[]; rules: RobotsRule[] }[] = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | undefined;
+
+  for (const rawLine of robotsTxt.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+
+      current.agents.push(value.toLowerCase());
+    } else if ((key === 'allow' || key === 'disallow') && current) {
+      if (value.length === 0) continue;
+
+      current.rules.push({
+        allow: key === 'allow',
+        pattern: toRobotsPattern(value),
+        length: value.length,
+      });
+    }
+  }
+
+  const agentToken = userAgent.split('/')[0].toLowerCase();
+
+  return (
+    (
+      groups.find((group) =>
+        group.agents.some(
+          (agent) => agent !== '*' && agentToken.includes(agent),
+        ),
+      ) ?? groups.find((group) => group.agents.includes('*'))
+    )?.rules ?? []
+  );
+};
+
+export const isAllowedByRobots = (rules: RobotsRule[], path: string) => {
+  const matchingRule = rules
+    .filter((rule) => rule.pattern.test(path))
+    .sort(
+      (a, b) => b.length - a.length || Number(b.allow) - Number(a.allow),
+    )[0];
+
+  return matchingRule?.allow ?? true;
+};
+
+const getRobotsRules = async (url: URL, timeout: number) => {
+  const cached = robotsCache.get(url.origin);
+
+  if (cached && cached.expires > Date.now()) {
+    return cached.rules;
+  }
+
+  let rules: RobotsRule[] = [];
+
+  /* A missing or unreadable robots.txt allows everything */
+  try {
+    const { res } = await fetchWithRedirects(
+      `${url.origin}/robots.txt`,
+      'text/plain',
+      {},
+      timeout,
+      512 * 1024,
+      false,
+    );
+
+    if (res.status >= 200 && res.status < 300) {
+      rules = parseRobotsTxt(
+        Buffer.from(res.data).toString('utf8'),
+        getFetchConfig().userAgent,
+      );
+    }
+  } catch {}
+
+  if (robotsCache.size >= maxRobotsCacheSize) {
+    robotsCache.delete(robotsCache.keys().next().value);
+  }
+
+  robotsCache.set(url.origin, {
+    rules,
+    expires: Date.now() + robotsCacheTtl,
+  });
+
+  return rules;
+};
+
+export const safeFetch = async (
+  url: string,
+  options: SafeFetchOptions = {},
+): Promise<SafeFetchResponse> => {
+  const fetchConfig = getFetchConfig();
+  const timeout = options.timeout ?? fetchConfig.timeout;
+  const maxResponseSize =
+    options.maxResponseSize ?? fetchConfig.maxResponseSize;
+
+  const { url: finalUrl, res } = await fetchWithRedirects(
+    url,
+    options.accept ?? '*/*',
+    options.headers ?? {},
+    timeout,
+    maxResponseSize,
+    fetchConfig.respectRobotsTxt,
+  );
+
+  if (res.status < 200 || res.status >= 300) {
+    throw new HttpStatusError(finalUrl, res.status);
+  }
+
+  return {
+    url: finalUrl,
+    status: res.status,
+    contentType: String(res.headers['content-type'] ?? ''),
+    data: Buffer.from(res.data),
+  };
+};
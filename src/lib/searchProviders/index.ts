@@ -0,0 +1,47 @@
+import type {
+  SearxngInfobox,
+  SearxngSearchOptions,
+  SearxngSearchResult,
+} from '../searxng';
+import { getFocusModeSearchProvider } from '../../config';
+import { searxngSearchProvider } from './searxng';
+import { jsonApiSearchProvider } from './jsonApi';
+import { localIndexSearchProvider } from './localIndex';
+import { mockSearchProvider } from './mock';
+
+export type SearchOptions = SearxngSearchOptions;
+
+export type SearchResult = SearxngSearchResult;
+
+export type SearchInfobox = SearxngInfobox;
+
+export interface SearchResponse {
+  results: SearchResult[];
+  suggestions: string[];
+  infoboxes?: SearchInfobox[];
+}
+
+export interface SearchProvider {
+  name: string;
+  search: (query: string, opts?: SearchOptions) => Promise<SearchResponse>;
+}
+
+const searchProviders: Record<string, SearchProvider> = {
+  searxng: searxngSearchProvider,
+  json: jsonApiSearchProvider,
+  local: localIndexSearchProvider,
+  mock: mockSearchProvider,
+};
+
+export const getSearchProvider = (focusMode: string) => {
+  const providerName = getFocusModeSearchProvider(focusMode);
+  const provider = searchProviders[providerName];
+
+  if (!provider) {
+    throw new Error(
+      `Invalid search provider "${providerName}" for focus mode "${focusMode}"`,
+    );
+  }
+
+  return provider;
+};
@@ -0,0 +1,62 @@
+import axios from 'axios';
+import { getJsonSearchApiConfig } from '../../config';
+import type { SearchProvider, SearchResult } from '.';
+
+const getByPath = (obj: any, path?: string) => {
+  if (!path) return obj;
+
+  return path
+    .split('.')
+    .reduce((value, key) => (value == null ? undefined : value[key]), obj);
+};
+
+/* Searches any HTTP API that returns JSON, the shape of the response is mapped with the field paths set in the config */
+export const jsonApiSearchProvider: SearchProvider = {
+  name: 'json',
+  search: async (query, opts) => {
+    const apiConfig = getJsonSearchApiConfig();
+
+    if (!apiConfig?.URL) {
+      throw new Error('JSON search API URL is not configured');
+    }
+
+    const queryParam = apiConfig.QUERY_PARAM ?? 'q';
+    const params = {
+      [queryParam]: query,
+      ...(opts?.language && { language: opts.language }),
+      ...(opts?.pageno && { page: opts.pageno }),
+    };
+
+    const timeout = apiConfig.TIMEOUT ?? 10000;
+
+    const res =
+      apiConfig.METHOD === 'POST'
+        ? await axios.post(apiConfig.URL, params, {
+            headers: apiConfig.HEADERS,
+            timeout,
+          })
+        : await axios.get(apiConfig.URL, {
+            params,
+            headers: apiConfig.HEADERS,
+            timeout,
+          });
+
+    const items = getByPath(res.data, apiConfig.RESULTS_PATH ?? 'results');
+
+    if (!Array.isArray(items)) {
+      throw new Error(
+        `JSON search API response has no results array at "${apiConfig.RESULTS_PATH ?? 'results'}"`,
+      );
+    }
+
+    const results: SearchResult[] = items
+      .map((item) => ({
+        title: getByPath(item, apiConfig.TITLE_FIELD ?? 'title'),
+        url: getByPath(item, apiConfig.URL_FIELD ?? 'url'),
+        content: getByPath(item, apiConfig.CONTENT_FIELD ?? 'content'),
+      }))
+      .filter((result) => result.title && result.url);
+
+    return { results, suggestions: [] };
+  },
+};
@@ -0,0 +1,52 @@
+import Database from 'better-sqlite3';
+import { getLocalSearchIndexPath } from '../../config';
+import type { SearchProvider, SearchResult } from '.';
+
+let index: Database.Database | undefined;
+let indexPath: string | undefined;
+
+const getIndex = () => {
+  const path = getLocalSearchIndexPath();
+
+  if (!index || indexPath !== path) {
+    index?.close();
+    index = new Database(path);
+    index.exec(
+      'CREATE VIRTUAL TABLE IF NOT EXISTS documents USING fts5(title, url UNINDEXED, content)',
+    );
+    indexPath = path;
+  }
+
+  return index;
+};
+
+/* FTS5 treats punctuation as query syntax, so every term is quoted and the terms are OR-ed together */
+const toMatchQuery = (query: string) =>
+  query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, '').trim())
+    .filter((term) => term.length > 0)
+    .map((term) => `"${term}"`)
+    .join(' OR ');
+
+export const localIndexSearchProvider: SearchProvider = {
+  name: 'local',
+  search: async (query, opts) => {
+    const matchQuery = toMatchQuery(query);
+
+    if (!matchQuery) {
+      return { results: [], suggestions: [] };
+    }
+
+    const page = Math.max(opts?.pageno ?? 1, 1);
+
+    const results = getIndex()
+      .prepare(
+        `SELECT title, url, snippet(documents, 2, '', '', '...', 64) AS content
+        FROM documents WHERE documents MATCH ? ORDER BY bm25(documents) LIMIT 20 OFFSET ?`,
+      )
+      .all(matchQuery, (page - 1) * 20) as SearchResult[];
+
+    return { results, suggestions: [] };
+  },
+};
@@ -0,0 +1,34 @@
+import fs from 'fs';
+import { getMockSearchResultsFile } from '../../config';
+import type { SearchProvider, SearchResponse } from '.';
+
+/* Returns the recorded SearxNG style response from the configured file, or a few generated results, so searches can run offline */
+export const mockSearchProvider: SearchProvider = {
+  name: 'mock',
+  search: async (query) => {
+    const resultsFile = getMockSearchResultsFile();
+
+    if (resultsFile) {
+      const recorded = JSON.parse(
+        fs.readFileSync(resultsFile, 'utf-8'),
+      ) as SearchResponse;
+
+      return {
+        results: recorded.results ?? [],
+        suggestions: recorded.suggestions ?? [],
+        infoboxes: recorded.infoboxes ?? [],
+      };
+    }
+
+    const slug = encodeURIComponent(query.toLowerCase().replace(/\s+/g, '-'));
+
+    return {
+      results: [1, 2, 3].map((i) => ({
+        title: `Mock result ${i} for ${query}`,
+        url: `https://example.com/${slug}/${i}`,
+        content: `This is mock search result ${i} for the query "${query}".`,
+      })),
+      suggestions: [],
+    };
+  },
+};
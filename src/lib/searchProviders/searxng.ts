@@ -0,0 +1,7 @@
+import { searchSearxng } from '../searxng';
+import type { SearchProvider } from '.';
+
+export const searxngSearchProvider: SearchProvider = {
+  name: 'searxng',
+  search: (query, opts) => searchSearxng(query, opts),
+};
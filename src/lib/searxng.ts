@@ -1,14 +1,15 @@
 import axios from 'axios';
 import { getSearxngApiEndpoint } from '../config';
+import { getSearchCacheKey, searchCache } from './cache';
 
-interface SearxngSearchOptions {
+export interface SearxngSearchOptions {
   categories?: string[];
   engines?: string[];
   language?: string;
   pageno?: number;
 }
 
-interface SearxngSearchResult {
+export interface SearxngSearchResult {
   title: string;
   url: string;
   img_src?: string;
@@ -17,6 +18,28 @@ interface SearxngSearchResult {
   content?: string;
   author?: string;
   iframe_src?: string;
+  /* Paper fields of the arXiv, Google Scholar and PubMed engines */
+  authors?: string[] | string;
+  publishedDate?: string;
+  journal?: string;
+  publisher?: string;
+  doi?: string;
+  pdf_url?: string;
+}
+
+/* Boxes shown next to the results, like the pods of the wolframalpha engine */
+export interface SearxngInfobox {
+  infobox: string;
+  id?: string;
+  content?: string;
+  img_src?: string;
+  urls?: { title: string; url: string }[];
+  attributes?: {
+    label: string;
+    value?: string;
+    image?: { src: string; alt?: string };
+  }[];
+  engine?: string;
 }
 
 export const searchSearxng = async (
@@ -38,10 +61,13 @@ export const searchSearxng = async (
     });
   }
 
-  const res = await axios.get(url.toString());
+  return searchCache.getOrSet(getSearchCacheKey(query, opts), async () => {
+    const res = await axios.get(url.toString());
 
-  const results: SearxngSearchResult[] = res.data.results;
-  const suggestions: string[] = res.data.suggestions;
+    const results: SearxngSearchResult[] = res.data.results;
+    const suggestions: string[] = res.data.suggestions;
+    const infoboxes: SearxngInfobox[] = res.data.infoboxes ?? [];
 
-  return { results, suggestions };
+    return { results, suggestions, infoboxes };
+  });
 };
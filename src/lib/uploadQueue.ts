@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import path from 'path';
+import type { Embeddings } from '@langchain/core/embeddings';
+import {
+  deleteUploadedFileEverywhere,
+  getExtractedFile,
+  getUploadedFileId,
+  processUploadedFile,
+} from '../utils/files';
+import logger from '../utils/logger';
+import { ChunkingOptions } from './chunking';
+import { reembedFileChunks } from './vectorStore';
+
+export type UploadJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export type UploadFileStatus =
+  | 'queued'
+  | 'extracting'
+  | 'embedding'
+  | 'completed'
+  | 'failed';
+
+export interface UploadJobFile {
+  fileId: string;
+  fileName: string;
+  fileExtension: string;
+  status: UploadFileStatus;
+  progress: number;
+  chunkCount?: number;
+  warning?: string;
+  error?: string;
+}
+
+export type UploadJobType = 'upload' | 'reembed';
+
+export interface UploadJob {
+  id: string;
+  type: UploadJobType;
+  status: UploadJobStatus;
+  files: UploadJobFile[];
+  createdAt: string;
+}
+
+/* Uploads and re-embeddings share the queue, each job knows how to process its own files */
+interface QueuedUploadJob {
+  job: UploadJob;
+  processFile: (jobFile: UploadJobFile, index: number) => Promise<void>;
+}
+
+/* Finished jobs are kept for an hour so clients can still read their result */
+const finishedJobTtl = 60 * 60 * 1000;
+
+const jobs = new Map<string, UploadJob>();
+const queue: QueuedUploadJob[] = [];
+let running = false;
+
+/* Failed files are removed again. The failed status is set before, so a file whose cleanup fails isn't left pending */
+const failFile = async (jobFile: UploadJobFile, error: string) => {
+  jobFile.status = 'failed';
+  jobFile.error = error;
+
+  try {
+    await deleteUploadedFileEverywhere(jobFile.fileId);
+  } catch (err) {
+    logger.error(
+      `Error in deleting failed upload ${jobFile.fileName}: ${err.message}`,
+    );
+  }
+};
+
+const processFile = async (
+  file: Express.Multer.File,
+  jobFile: UploadJobFile,
+  embeddingsModel: Embeddings,
+  embeddingModelName: string,
+  chunking: ChunkingOptions,
+) => {
+  let result: Awaited<ReturnType<typeof processUploadedFile>>;
+
+  try {
+    result = await processUploadedFile(
+      file,
+      embeddingsModel,
+      embeddingModelName,
+      chunking,
+      (status, progress) => {
+        jobFile.status = status;
+        jobFile.progress = status === 'extracting' ? 0.1 : 0.1 + progress * 0.9;
+      },
+    );
+  } catch (err) {
+    logger.error(
+      `Error in processing uploaded file ${jobFile.fileName}: ${err.message}`,
+    );
+    return failFile(jobFile, 'An error occurred while processing the file');
+  }
+
+  if (result.chunkCount === 0) {
+    return failFile(jobFile, result.warning ?? 'No text could be extracted');
+  }
+
+  jobFile.status = 'completed';
+  jobFile.progress = 1;
+  jobFile.chunkCount = result.chunkCount;
+
+  if (result.warning) {
+    jobFile.warning = result.warning;
+  }
+};
+
+/* A file that can't be embedded again keeps its previous chunks, so it is not deleted */
+const reembedFile = async (
+  jobFile: UploadJobFile,
+  embeddingsModel: Embeddings,
+  embeddingModelName: string,
+) => {
+  jobFile.status = 'embedding';
+
+  try {
+    jobFile.chunkCount = await reembedFileChunks(
+      jobFile.fileId,
+      embeddingsModel,
+      embeddingModelName,
+    );
+    jobFile.status = 'completed';
+    jobFile.progress = 1;
+  } catch (err) {
+    logger.error(
+      `Error in re-embedding file ${jobFile.fileName}: ${err.message}`,
+    );
+    jobFile.status = 'failed';
+    jobFile.error = 'An error occurred while embedding the file';
+  }
+};
+
+const runQueue = async () => {
+  if (running) return;
+  running = true;
+
+  while (queue.length > 0) {
+    const queuedJob = queue.shift()!;
+    const { job } = queuedJob;
+
+    job.status = 'processing';
+
+    /* Files are processed one at a time so a large upload doesn't starve the rest of the server */
+    for (const [i, jobFile] of job.files.entries()) {
+      await queuedJob.processFile(jobFile, i);
+    }
+
+    job.status = job.files.every((file) => file.status === 'failed')
+      ? 'failed'
+      : 'completed';
+
+    setTimeout(() => jobs.delete(job.id), finishedJobTtl).unref();
+  }
+
+  running = false;
+};
+
+const enqueueJob = (
+  type: UploadJobType,
+  files: Omit<UploadJobFile, 'status' | 'progress'>[],
+  processFile: QueuedUploadJob['processFile'],
+) => {
+  const job: UploadJob = {
+    id: crypto.randomBytes(16).toString('hex'),
+    type,
+    status: 'queued',
+    files: files.map((file) => ({
+      ...file,
+      status: 'queued',
+      progress: 0,
+    })),
+    createdAt: new Date().toString(),
+  };
+
+  jobs.set(job.id, job);
+  queue.push({ job, processFile });
+
+  runQueue().catch((err) => {
+    running = false;
+    logger.error(`Error in processing upload queue: ${err.message}`);
+  });
+
+  return job;
+};
+
+export const enqueueUploadJob = (
+  files: Express.Multer.File[],
+  embeddingsModel: Embeddings,
+  embeddingModelName: string,
+  chunking: ChunkingOptions,
+) =>
+  enqueueJob(
+    'upload',
+    files.map((file) => ({
+      fileId: getUploadedFileId(file),
+      fileName: file.originalname,
+      fileExtension: file.filename.split('.').pop(),
+    })),
+    (jobFile, i) =>
+      processFile(
+        files[i],
+        jobFile,
+        embeddingsModel,
+        embeddingModelName,
+        chunking,
+      ),
+  );
+
+/* The file names are the stored file names, with the title of the extracted text when there is one */
+export const enqueueReembedJob = (
+  files: { fileId: string; fileName: string }[],
+  embeddingsModel: Embeddings,
+  embeddingModelName: string,
+) =>
+  enqueueJob(
+    'reembed',
+    files.map(({ fileId, fileName }) => ({
+      fileId,
+      fileName: getExtractedFile(fileId)?.title ?? fileName,
+      fileExtension: path.extname(fileName).slice(1),
+    })),
+    (jobFile) => reembedFile(jobFile, embeddingsModel, embeddingModelName),
+  );
+
+export const getUploadJob = (jobId: string) => jobs.get(jobId);
@@ -0,0 +1,267 @@
+import fs from 'fs';
+import path from 'path';
+import { count, eq, inArray, max } from 'drizzle-orm';
+import type { Embeddings } from '@langchain/core/embeddings';
+import { Document } from 'langchain/document';
+import db from '../db';
+import { fileChunks } from '../db/schema';
+import computeSimilarity from '../utils/computeSimilarity';
+import hybridRank from '../utils/hybridRank';
+import logger from '../utils/logger';
+
+export interface FileChunk {
+  fileId: string;
+  chunkIndex: number;
+  content: string;
+  metadata: Record<string, any>;
+  embedding: number[];
+  embeddingModel: string;
+}
+
+export interface FileChunkSearchResult {
+  chunk: FileChunk;
+  similarity: number;
+  score: number;
+}
+
+const maxCachedFiles = 50;
+
+/* Rows per insert, well below SQLite's limit on bound variables */
+const insertBatchSize = 500;
+
+/* Recorded for files uploaded before the embedding model of their chunks was stored */
+const unknownEmbeddingModel = 'unknown';
+
+/* Decoded embeddings of the most recently searched files, so follow-up messages don't hit the database again */
+const chunkCache = new Map<string, FileChunk[]>();
+
+const encodeEmbedding = (embedding: number[]) =>
+  Buffer.from(new Float32Array(embedding).buffer);
+
+const decodeEmbedding = (buffer: Buffer) =>
+  Array.from(new Float32Array(Uint8Array.from(buffer).buffer));
+
+const cacheChunks = (fileId: string, chunks: FileChunk[]) => {
+  chunkCache.delete(fileId);
+  chunkCache.set(fileId, chunks);
+
+  if (chunkCache.size > maxCachedFiles) {
+    chunkCache.delete(chunkCache.keys().next().value);
+  }
+};
+
+export const addFileChunks = async (
+  fileId: string,
+  chunks: { content: string; metadata: Record<string, any> }[],
+  embeddings: number[][],
+  embeddingModel: string,
+) => {
+  db.transaction((tx) => {
+    tx.delete(fileChunks).where(eq(fileChunks.fileId, fileId)).run();
+
+    for (let start = 0; start < chunks.length; start += insertBatchSize) {
+      tx.insert(fileChunks)
+        .values(
+          chunks.slice(start, start + insertBatchSize).map((chunk, i) => ({
+            fileId,
+            chunkIndex: start + i,
+            content: chunk.content,
+            metadata: chunk.metadata,
+            embedding: encodeEmbedding(embeddings[start + i]),
+            embeddingModel,
+          })),
+        )
+        .run();
+    }
+  });
+
+  chunkCache.delete(fileId);
+};
+
+export const deleteFileChunks = async (fileId: string) => {
+  await db.delete(fileChunks).where(eq(fileChunks.fileId, fileId)).execute();
+  chunkCache.delete(fileId);
+};
+
+/* Files uploaded before the vector store existed keep their embeddings in JSON files next to the upload, they are moved into the store the first time they are used */
+const importLegacyFile = async (fileId: string) => {
+  const filePath = path.join(process.cwd(), 'uploads', fileId);
+  const contentPath = filePath + '-extracted.json';
+  const embeddingsPath = filePath + '-embeddings.json';
+
+  if (!fs.existsSync(contentPath) || !fs.existsSync(embeddingsPath)) {
+    return;
+  }
+
+  const content = JSON.parse(fs.readFileSync(contentPath, 'utf8'));
+  const embeddings = JSON.parse(fs.readFileSync(embeddingsPath, 'utf8'));
+
+  await addFileChunks(
+    fileId,
+    content.contents.map((c: string, i: number) => ({
+      content: c,
+      metadata: {
+        title: content.title,
+        ...content.metadata?.[i],
+      },
+    })),
+    embeddings.embeddings,
+    unknownEmbeddingModel,
+  );
+
+  fs.unlinkSync(embeddingsPath);
+};
+
+export const getFileChunks = async (fileIds: string[]) => {
+  const uncachedFileIds = fileIds.filter((fileId) => !chunkCache.has(fileId));
+
+  if (uncachedFileIds.length > 0) {
+    let rows = await db.query.fileChunks.findMany({
+      where: inArray(fileChunks.fileId, uncachedFileIds),
+    });
+
+    const missingFileIds = uncachedFileIds.filter(
+      (fileId) => !rows.some((row) => row.fileId === fileId),
+    );
+
+    if (missingFileIds.length > 0) {
+      await Promise.all(missingFileIds.map(importLegacyFile));
+
+      rows = rows.concat(
+        await db.query.fileChunks.findMany({
+          where: inArray(fileChunks.fileId, missingFileIds),
+        }),
+      );
+    }
+
+    uncachedFileIds.forEach((fileId) => {
+      cacheChunks(
+        fileId,
+        rows
+          .filter((row) => row.fileId === fileId)
+          .sort((a, b) => a.chunkIndex - b.chunkIndex)
+          .map((row) => ({
+            fileId: row.fileId,
+            chunkIndex: row.chunkIndex,
+            content: row.content,
+            metadata: row.metadata ?? {},
+            embedding: decodeEmbedding(row.embedding),
+            embeddingModel: row.embeddingModel,
+          })),
+      );
+    });
+  }
+
+  return fileIds.flatMap((fileId) => chunkCache.get(fileId) ?? []);
+};
+
+export const getFileChunkStats = async () => {
+  const rows = await db
+    .select({
+      fileId: fileChunks.fileId,
+      chunkCount: count(),
+      embeddingModel: max(fileChunks.embeddingModel),
+    })
+    .from(fileChunks)
+    .groupBy(fileChunks.fileId);
+
+  return new Map(rows.map((row) => [row.fileId, row]));
+};
+
+export const reembedFileChunks = async (
+  fileId: string,
+  embeddingsModel: Embeddings,
+  embeddingModelName: string,
+) => {
+  const chunks = await getFileChunks([fileId]);
+
+  if (chunks.length === 0) {
+    return 0;
+  }
+
+  const embeddings = await embeddingsModel.embedDocuments(
+    chunks.map((chunk) => chunk.content),
+  );
+
+  await addFileChunks(
+    fileId,
+    chunks.map((chunk) => ({
+      content: chunk.content,
+      metadata: chunk.metadata,
+    })),
+    embeddings,
+    embeddingModelName,
+  );
+
+  return chunks.length;
+};
+
+export const fileChunkToDocument = (chunk: FileChunk) =>
+  new Document({
+    pageContent: chunk.content,
+    metadata: {
+      title: chunk.metadata.title,
+      url: `File`,
+      fileId: chunk.fileId,
+      ...(chunk.metadata.page && { page: chunk.metadata.page }),
+      ...(chunk.metadata.headings && { headings: chunk.metadata.headings }),
+      ...(chunk.metadata.section !== undefined && {
+        section: chunk.metadata.section,
+      }),
+      ...(chunk.metadata.start !== undefined && {
+        start: chunk.metadata.start,
+        end: chunk.metadata.end,
+      }),
+    },
+  });
+
+export const searchFileChunks = async (
+  query: string,
+  queryEmbedding: number[],
+  fileIds: string[],
+  {
+    limit,
+    threshold,
+    embeddingModel,
+  }: { limit: number; threshold: number; embeddingModel?: string },
+): Promise<FileChunkSearchResult[]> => {
+  if (fileIds.length === 0) {
+    return [];
+  }
+
+  const chunks = await getFileChunks(fileIds);
+
+  /* Vectors from a different embedding model can't be compared with the query, even when they have the same length. The model of files uploaded before it was recorded is unknown, so only their length is checked */
+  const isComparable = (chunk: FileChunk) =>
+    embeddingModel && chunk.embeddingModel !== unknownEmbeddingModel
+      ? chunk.embeddingModel === embeddingModel
+      : chunk.embedding.length === queryEmbedding.length;
+
+  const staleFileIds = [
+    ...new Set(
+      chunks
+        .filter((chunk) => !isComparable(chunk))
+        .map((chunk) => chunk.fileId),
+    ),
+  ];
+
+  if (staleFileIds.length > 0) {
+    logger.warn(
+      `Files ${staleFileIds.join(', ')} were embedded with another model than ${embeddingModel ?? 'the current one'} and are left out of the search, re-embed them through POST /api/uploads/reembed`,
+    );
+  }
+
+  const candidates = chunks.filter(isComparable).map((chunk) => ({
+    item: chunk,
+    content: chunk.content,
+    similarity: computeSimilarity(queryEmbedding, chunk.embedding),
+  }));
+
+  return hybridRank(query, candidates, threshold)
+    .slice(0, limit)
+    .map((result) => ({
+      chunk: result.item,
+      similarity: result.similarity,
+      score: result.score,
+    }));
+};
@@ -0,0 +1,169 @@
+import { safeFetch } from './safeFetch';
+import { transcriptCache } from './cache';
+
+export interface TranscriptSegment {
+  start: number;
+  text: string;
+}
+
+interface CaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  kind?: string;
+}
+
+export const getYoutubeVideoId = (url: string) => {
+  try {
+    const parsedUrl = new URL(url);
+    const hostname = parsedUrl.hostname.replace(/^(www\.|m\.)/, '');
+
+    if (hostname === 'youtu.be') {
+      return parsedUrl.pathname.slice(1) || null;
+    }
+
+    if (hostname === 'youtube.com' || hostname === 'youtube-nocookie.com') {
+      return (
+        parsedUrl.searchParams.get('v') ??
+        parsedUrl.pathname.match(/^\/(?:shorts|embed|live)\/([\w-]+)/)?.[1] ??
+        null
+      );
+    }
+  } catch {}
+
+  return null;
+};
+
+export const getYoutubeTimestampUrl = (videoId: string, start: number) =>
+  `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(start)}s`;
+
+export const formatTimestamp = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60)
+    .toString()
+    .padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+};
+
+/* Reads the JSON object that starts at the given index, skipping braces inside strings */
+const readJsonObject = (text: string, start: number) => {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+
+      if (depth === 0) {
+        return JSON.parse(text.slice(start, i + 1));
+      }
+    }
+  }
+
+  return null;
+};
+
+const getCaptionTracks = async (videoId: string): Promise<CaptionTrack[]> => {
+  const res = await safeFetch(
+    `https://www.youtube.com/watch?v=${videoId}&hl=en`,
+    {
+      accept: 'text/html',
+      /* Skips the cookie consent page shown to visitors from the EU */
+      headers: { Cookie: 'CONSENT=YES+1' },
+    },
+  );
+
+  const html = res.data.toString('utf8');
+  const marker = html.indexOf('ytInitialPlayerResponse');
+
+  if (marker === -1) return [];
+
+  const playerResponse = readJsonObject(html, html.indexOf('{', marker));
+
+  return (
+    playerResponse?.captions?.playerCaptionsTracklistRenderer?.captionTracks ??
+    []
+  );
+};
+
+/* Prefers captions written by people over automatic ones, and the given language over others */
+const pickCaptionTrack = (tracks: CaptionTrack[], language: string) =>
+  tracks.find(
+    (track) => track.languageCode.startsWith(language) && track.kind !== 'asr',
+  ) ??
+  tracks.find((track) => track.languageCode.startsWith(language)) ??
+  tracks.find((track) => track.kind !== 'asr') ??
+  tracks[0];
+
+export const getYoutubeTranscript = (videoId: string, language = 'en') =>
+  transcriptCache.getOrSet(`${videoId}\n${language}`, async () => {
+    const track = pickCaptionTrack(await getCaptionTracks(videoId), language);
+
+    if (!track) return [];
+
+    const res = await safeFetch(`${track.baseUrl}&fmt=json3`, {
+      accept: 'application/json',
+    });
+
+    const events: {
+      tStartMs?: number;
+      segs?: { utf8?: string }[];
+    }[] = JSON.parse(res.data.toString('utf8')).events ?? [];
+
+    return events
+      .filter((event) => event.segs)
+      .map((event) => ({
+        start: (event.tStartMs ?? 0) / 1000,
+        text: event.segs
+          .map((seg) => seg.utf8 ?? '')
+          .join('')
+          .replace(/\s+/g, ' ')
+          .trim(),
+      }))
+      .filter((segment) => segment.text.length > 0);
+  });
+
+/* Joins caption lines into chunks of about chunkSize characters, each starting at the time of its first line */
+export const chunkTranscript = (
+  segments: TranscriptSegment[],
+  chunkSize: number,
+): TranscriptSegment[] => {
+  const chunks: TranscriptSegment[] = [];
+  let current: TranscriptSegment[] = [];
+  let length = 0;
+
+  for (const segment of segments) {
+    if (current.length > 0 && length + segment.text.length > chunkSize) {
+      chunks.push({
+        start: current[0].start,
+        text: current.map((line) => line.text).join(' '),
+      });
+      current = [];
+      length = 0;
+    }
+
+    current.push(segment);
+    length += segment.text.length + 1;
+  }
+
+  if (current.length > 0) {
+    chunks.push({
+      start: current[0].start,
+      text: current.map((line) => line.text).join(' '),
+    });
+  }
+
+  return chunks;
+};
@@ -2,6 +2,12 @@ import {
   academicSearchResponsePrompt,
   academicSearchRetrieverPrompt,
 } from './academicSearch';
+import { collectionSearchPrompt } from './collectionSearch';
+import {
+  deepResearchGapPrompt,
+  deepResearchPlannerPrompt,
+  deepResearchResponsePrompt,
+} from './deepResearch';
 import {
   redditSearchResponsePrompt,
   redditSearchRetrieverPrompt,
@@ -29,4 +35,8 @@ export default {
   writingAssistantPrompt,
   youtubeSearchResponsePrompt,
   youtubeSearchRetrieverPrompt,
+  deepResearchPlannerPrompt,
+  deepResearchGapPrompt,
+  deepResearchResponsePrompt,
+  collectionSearchPrompt,
 };
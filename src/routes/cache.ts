@@ -0,0 +1,70 @@
+import express from 'express';
+import logger from '../utils/logger';
+import {
+  caches,
+  isSearchCacheKeyFor,
+  normalizeUrl,
+  pageCache,
+  searchCache,
+} from '../lib/cache';
+
+const router = express.Router();
+
+router.get('/', async (_, res) => {
+  try {
+    return res.status(200).json({
+      caches: Object.values(caches).map((cache) => cache.stats()),
+    });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in getting cache stats: ${err.message}`);
+  }
+});
+
+router.delete('/', async (_, res) => {
+  try {
+    const deleted = Object.values(caches).reduce(
+      (total, cache) => total + cache.clear(),
+      0,
+    );
+
+    return res.status(200).json({ deleted });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in clearing caches: ${err.message}`);
+  }
+});
+
+router.delete('/search', async (req, res) => {
+  try {
+    const query = req.query.query;
+
+    const deleted =
+      typeof query === 'string'
+        ? searchCache.delete((key) => isSearchCacheKeyFor(key, query))
+        : searchCache.clear();
+
+    return res.status(200).json({ deleted });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in clearing search cache: ${err.message}`);
+  }
+});
+
+router.delete('/pages', async (req, res) => {
+  try {
+    const url = req.query.url;
+
+    const deleted =
+      typeof url === 'string'
+        ? pageCache.delete((key) => key === normalizeUrl(url))
+        : pageCache.clear();
+
+    return res.status(200).json({ deleted });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in clearing page cache: ${err.message}`);
+  }
+});
+
+export default router;
@@ -3,6 +3,7 @@ import logger from '../utils/logger';
 import db from '../db/index';
 import { eq } from 'drizzle-orm';
 import { chats, messages } from '../db/schema';
+import { deleteUnreferencedFiles } from '../utils/files';
 
 const router = express.Router();
 
@@ -56,6 +57,13 @@ router.delete(`/:id`, async (req, res) => {
       .where(eq(messages.chatId, req.params.id))
       .execute();
 
+    /* Files attached to the chat are deleted unless another chat or a collection still uses them */
+    await deleteUnreferencedFiles(
+      ((chatExists.files ?? []) as { fileId: string }[]).map(
+        (file) => file.fileId,
+      ),
+    );
+
     return res.status(200).json({ message: 'Chat deleted successfully' });
   } catch (err) {
     res.status(500).json({ message: 'An error has occurred.' });
@@ -0,0 +1,299 @@
+import express from 'express';
+import crypto from 'crypto';
+import { and, eq } from 'drizzle-orm';
+import { Embeddings } from '@langchain/core/embeddings';
+import db from '../db/index';
+import { collectionFiles, collections } from '../db/schema';
+import { getAvailableEmbeddingModelProviders } from '../lib/providers';
+import { enqueueUploadJob } from '../lib/uploadQueue';
+import {
+  ChunkingOptions,
+  getChunkingOptions,
+  parseChunkingOptions,
+} from '../lib/chunking';
+import {
+  deleteUploadedFile,
+  getUploadedFileId,
+  handleUploadError,
+  upload,
+} from '../utils/files';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+router.get('/', async (_, res) => {
+  try {
+    const allCollections = await db.query.collections.findMany();
+    const allFiles = await db.query.collectionFiles.findMany();
+
+    return res.status(200).json({
+      collections: allCollections.map((collection) => ({
+        ...collection,
+        fileCount: allFiles.filter(
+          (file) => file.collectionId === collection.id,
+        ).length,
+      })),
+    });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in getting collections: ${err.message}`);
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const { name, description } = req.body;
+
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return res.status(400).json({ message: 'Missing collection name' });
+    }
+
+    const chunking = parseChunkingOptions(req.body.chunking ?? {});
+
+    if (!chunking) {
+      return res.status(400).json({ message: 'Invalid chunking options' });
+    }
+
+    const collection = {
+      id: crypto.randomBytes(16).toString('hex'),
+      name: name.trim(),
+      description: description ?? null,
+      chunking: Object.keys(chunking).length > 0 ? chunking : null,
+      createdAt: new Date().toString(),
+    };
+
+    await db.insert(collections).values(collection).execute();
+
+    return res.status(200).json({ collection });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in creating collection: ${err.message}`);
+  }
+});
+
+router.patch('/:id', async (req, res) => {
+  try {
+    const collection = await db.query.collections.findFirst({
+      where: eq(collections.id, req.params.id),
+    });
+
+    if (!collection) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+
+    const { name, description } = req.body;
+
+    if (
+      name !== undefined &&
+      (typeof name !== 'string' || name.trim().length === 0)
+    ) {
+      return res.status(400).json({ message: 'Invalid collection name' });
+    }
+
+    const chunking =
+      req.body.chunking === undefined || req.body.chunking === null
+        ? req.body.chunking
+        : parseChunkingOptions(req.body.chunking);
+
+    if (req.body.chunking && !chunking) {
+      return res.status(400).json({ message: 'Invalid chunking options' });
+    }
+
+    const updatedCollection = {
+      name: name?.trim() ?? collection.name,
+      description:
+        description !== undefined ? description : collection.description,
+      chunking: chunking !== undefined ? chunking : collection.chunking,
+    };
+
+    await db
+      .update(collections)
+      .set(updatedCollection)
+      .where(eq(collections.id, req.params.id))
+      .execute();
+
+    return res
+      .status(200)
+      .json({ collection: { ...collection, ...updatedCollection } });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in updating collection: ${err.message}`);
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const collection = await db.query.collections.findFirst({
+      where: eq(collections.id, req.params.id),
+    });
+
+    if (!collection) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+
+    const files = await db.query.collectionFiles.findMany({
+      where: eq(collectionFiles.collectionId, req.params.id),
+    });
+
+    return res.status(200).json({ collection, files });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in getting collection: ${err.message}`);
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    const collection = await db.query.collections.findFirst({
+      where: eq(collections.id, req.params.id),
+    });
+
+    if (!collection) {
+      return res.status(404).json({ message: 'Collection not found' });
+    }
+
+    const files = await db.query.collectionFiles.findMany({
+      where: eq(collectionFiles.collectionId, req.params.id),
+    });
+
+    await Promise.all(files.map((file) => deleteUploadedFile(file.fileId)));
+
+    await db
+      .delete(collectionFiles)
+      .where(eq(collectionFiles.collectionId, req.params.id))
+      .execute();
+    await db
+      .delete(collections)
+      .where(eq(collections.id, req.params.id))
+      .execute();
+
+    return res.status(200).json({ message: 'Collection deleted successfully' });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in deleting collection: ${err.message}`);
+  }
+});
+
+router.post(
+  '/:id/files',
+  upload.fields([
+    { name: 'files' },
+    { name: 'embedding_model', maxCount: 1 },
+    { name: 'embedding_model_provider', maxCount: 1 },
+    { name: 'chunking_strategy', maxCount: 1 },
+    { name: 'chunk_size', maxCount: 1 },
+    { name: 'chunk_overlap', maxCount: 1 },
+  ]),
+  async (req, res) => {
+    try {
+      const collection = await db.query.collections.findFirst({
+        where: eq(collections.id, req.params.id),
+      });
+
+      if (!collection) {
+        return res.status(404).json({ message: 'Collection not found' });
+      }
+
+      const { embedding_model, embedding_model_provider } = req.body;
+
+      if (!embedding_model || !embedding_model_provider) {
+        return res
+          .status(400)
+          .json({ message: 'Missing embedding model or provider' });
+      }
+
+      const embeddingModels = await getAvailableEmbeddingModelProviders();
+
+      const embeddingsModel = embeddingModels[embedding_model_provider]?.[
+        embedding_model
+      ]?.model as Embeddings | undefined;
+
+      if (!embeddingsModel) {
+        return res
+          .status(400)
+          .json({ message: 'Invalid embedding model selected' });
+      }
+
+      const files = req.files['files'] as Express.Multer.File[];
+      if (!files || files.length === 0) {
+        return res.status(400).json({ message: 'No files uploaded' });
+      }
+
+      const chunkingOverrides = parseChunkingOptions({
+        strategy: req.body.chunking_strategy,
+        chunkSize: req.body.chunk_size,
+        chunkOverlap: req.body.chunk_overlap,
+      });
+
+      if (!chunkingOverrides) {
+        return res.status(400).json({ message: 'Invalid chunking options' });
+      }
+
+      /* Options sent with the upload take precedence over the collection's own */
+      const chunking = getChunkingOptions(
+        'uploads',
+        collection.chunking as Partial<ChunkingOptions> | null,
+        chunkingOverrides,
+      );
+
+      const addedFiles = files.map((file) => ({
+        collectionId: collection.id,
+        fileId: getUploadedFileId(file),
+        name: file.originalname,
+        createdAt: new Date().toString(),
+      }));
+
+      /* Files that fail to process are removed from the collection again by the upload queue */
+      await db.insert(collectionFiles).values(addedFiles).execute();
+
+      const job = enqueueUploadJob(
+        files,
+        embeddingsModel,
+        `${embedding_model_provider}/${embedding_model}`,
+        chunking,
+      );
+
+      return res.status(202).json({
+        jobId: job.id,
+        files: addedFiles.map((file, i) => ({
+          ...file,
+          status: job.files[i].status,
+        })),
+      });
+    } catch (err) {
+      res.status(500).json({ message: 'An error has occurred.' });
+      logger.error(`Error in adding files to collection: ${err.message}`);
+    }
+  },
+);
+
+router.delete('/:id/files/:fileId', async (req, res) => {
+  try {
+    const file = await db.query.collectionFiles.findFirst({
+      where: and(
+        eq(collectionFiles.collectionId, req.params.id),
+        eq(collectionFiles.fileId, req.params.fileId),
+      ),
+    });
+
+    if (!file) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+
+    await deleteUploadedFile(file.fileId);
+
+    await db
+      .delete(collectionFiles)
+      .where(eq(collectionFiles.id, file.id))
+      .execute();
+
+    return res.status(200).json({ message: 'File deleted successfully' });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in deleting collection file: ${err.message}`);
+  }
+});
+
+router.use(handleUploadError);
+
+export default router;
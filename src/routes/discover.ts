@@ -1,34 +1,36 @@
 import express from 'express';
-import { searchSearxng } from '../lib/searxng';
+import { getSearchProvider } from '../lib/searchProviders';
 import logger from '../utils/logger';
 
 const router = express.Router();
 
 router.get('/', async (req, res) => {
   try {
+    const searchProvider = getSearchProvider('discover');
+
     const data = (
       await Promise.all([
-        searchSearxng('site:businessinsider.com AI', {
+        searchProvider.search('site:businessinsider.com AI', {
           engines: ['bing news'],
           pageno: 1,
         }),
-        searchSearxng('site:www.exchangewire.com AI', {
+        searchProvider.search('site:www.exchangewire.com AI', {
           engines: ['bing news'],
           pageno: 1,
         }),
-        searchSearxng('site:yahoo.com AI', {
+        searchProvider.search('site:yahoo.com AI', {
           engines: ['bing news'],
           pageno: 1,
         }),
-        searchSearxng('site:businessinsider.com tech', {
+        searchProvider.search('site:businessinsider.com tech', {
           engines: ['bing news'],
           pageno: 1,
         }),
-        searchSearxng('site:www.exchangewire.com tech', {
+        searchProvider.search('site:www.exchangewire.com tech', {
           engines: ['bing news'],
           pageno: 1,
         }),
-        searchSearxng('site:yahoo.com tech', {
+        searchProvider.search('site:yahoo.com tech', {
           engines: ['bing news'],
           pageno: 1,
         }),
@@ -8,6 +8,8 @@ import chatsRouter from './chats';
 import searchRouter from './search';
 import discoverRouter from './discover';
 import uploadsRouter from './uploads';
+import collectionsRouter from './collections';
+import cacheRouter from './cache';
 
 const router = express.Router();
 
@@ -20,5 +22,7 @@ router.use('/chats', chatsRouter);
 router.use('/search', searchRouter);
 router.use('/discover', discoverRouter);
 router.use('/uploads', uploadsRouter);
+router.use('/collections', collectionsRouter);
+router.use('/cache', cacheRouter);
 
 export default router;
@@ -10,6 +10,10 @@ import {
 import { searchHandlers } from '../websocket/messageHandler';
 import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages';
 import { MetaSearchAgentType } from '../search/metaSearchAgent';
+import db from '../db';
+import { chats, messages as messagesSchema } from '../db/schema';
+import { asc, eq } from 'drizzle-orm';
+import crypto from 'crypto';
 
 const router = express.Router();
 
@@ -26,14 +30,32 @@ interface embeddingModel {
 }
 
 interface ChatRequestBody {
-  optimizationMode: 'speed' | 'balanced';
+  optimizationMode: 'speed' | 'balanced' | 'quality';
   focusMode: string;
   chatModel?: chatModel;
   embeddingModel?: embeddingModel;
   query: string;
   history: Array<[string, string]>;
+  stream?: boolean;
+  chatId?: string;
+  persist?: boolean;
 }
 
+/* Agent events forwarded to streaming clients, everything else the agents emit stays internal */
+const streamedEvents = ['sources', 'response', 'step', 'plan', 'progress'];
+
+const loadChatHistory = async (chatId: string) => {
+  const chatMessages = await db.query.messages.findMany({
+    where: eq(messagesSchema.chatId, chatId),
+    orderBy: asc(messagesSchema.id),
+  });
+
+  return chatMessages.map((msg) => [
+    msg.role === 'user' ? 'human' : 'assistant',
+    msg.content,
+  ]) as Array<[string, string]>;
+};
+
 router.post('/', async (req, res) => {
   try {
     const body: ChatRequestBody = req.body;
@@ -42,9 +64,22 @@ router.post('/', async (req, res) => {
       return res.status(400).json({ message: 'Missing focus mode or query' });
     }
 
-    body.history = body.history || [];
     body.optimizationMode = body.optimizationMode || 'balanced';
 
+    const chat = body.chatId
+      ? await db.query.chats.findFirst({
+          where: eq(chats.id, body.chatId),
+        })
+      : undefined;
+
+    if (body.chatId && !chat && !body.persist) {
+      return res.status(404).json({ message: 'Chat not found' });
+    }
+
+    if (!body.history) {
+      body.history = chat ? await loadChatHistory(chat.id) : [];
+    }
+
     const history: BaseMessage[] = body.history.map((msg) => {
       if (msg[0] === 'human') {
         return new HumanMessage({
@@ -122,6 +157,20 @@ router.post('/', async (req, res) => {
       return res.status(400).json({ message: 'Invalid focus mode' });
     }
 
+    const chatId = body.persist
+      ? body.chatId ?? crypto.randomBytes(20).toString('hex')
+      : undefined;
+    const aiMessageId = crypto.randomBytes(7).toString('hex');
+
+    /* Stops the search and the answer's generation when the client goes away, so no more provider tokens are spent */
+    const abortController = new AbortController();
+
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        abortController.abort();
+      }
+    });
+
     const emitter = await searchHandler.searchAndAnswer(
       body.query,
       history,
@@ -129,8 +178,114 @@ router.post('/', async (req, res) => {
       embeddings,
       body.optimizationMode,
       [],
+      abortController.signal,
     );
 
+    /* The question is saved together with its answer, so a failed search leaves no unanswered question in the chat */
+    const saveAnswer = async (message: string, sources: any[]) => {
+      if (!body.persist) return;
+
+      try {
+        db.transaction((tx) => {
+          if (!chat) {
+            tx.insert(chats)
+              .values({
+                id: chatId,
+                title: body.query,
+                createdAt: new Date().toString(),
+                focusMode: body.focusMode,
+                files: [],
+              })
+              .run();
+          }
+
+          tx.insert(messagesSchema)
+            .values([
+              {
+                content: body.query,
+                chatId: chatId,
+                messageId: crypto.randomBytes(7).toString('hex'),
+                role: 'user',
+                metadata: JSON.stringify({
+                  createdAt: new Date(),
+                }),
+              },
+              {
+                content: message,
+                chatId: chatId,
+                messageId: aiMessageId,
+                role: 'assistant',
+                metadata: JSON.stringify({
+                  createdAt: new Date(),
+                  ...(sources && sources.length > 0 && { sources }),
+                }),
+              },
+            ])
+            .run();
+        });
+      } catch (err) {
+        logger.error(`Error in saving the answer: ${err.message}`);
+      }
+    };
+
+    const shouldStream =
+      body.stream || req.headers.accept?.includes('text/event-stream');
+
+    if (shouldStream) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+
+      const sendEvent = (event: string, data: any) => {
+        if (res.writableEnded) return;
+        res.write(
+          `event: ${event}\ndata: ${JSON.stringify({ type: event, ...data, messageId: aiMessageId })}\n\n`,
+        );
+      };
+
+      let message = '';
+      let sources = [];
+
+      emitter.on('data', (data) => {
+        const parsedData = JSON.parse(data);
+        if (parsedData.type === 'response') {
+          message += parsedData.data;
+        } else if (parsedData.type === 'sources') {
+          sources = parsedData.data;
+        }
+
+        if (streamedEvents.includes(parsedData.type)) {
+          sendEvent(parsedData.type, { data: parsedData.data });
+        }
+      });
+
+      emitter.on('end', async () => {
+        await saveAnswer(message, sources);
+        sendEvent('end', { ...(chatId && { chatId }) });
+        res.end();
+      });
+
+      emitter.on('error', (data) => {
+        const parsedData = JSON.parse(data);
+        sendEvent('error', { data: parsedData.data });
+        res.end();
+      });
+
+      /* The response closes when the answer ends or when the client goes away. In the latter case nothing more is written or saved */
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          emitter.removeAllListeners();
+          /* An error event without a listener would crash the server */
+          emitter.on('error', () => {});
+        }
+      });
+
+      return;
+    }
+
     let message = '';
     let sources = [];
 
@@ -143,8 +298,13 @@ router.post('/', async (req, res) => {
       }
     });
 
-    emitter.on('end', () => {
-      res.status(200).json({ message, sources });
+    emitter.on('end', async () => {
+      await saveAnswer(message, sources);
+      res.status(200).json({
+        message,
+        sources,
+        ...(chatId && { chatId, messageId: aiMessageId }),
+      });
     });
 
     emitter.on('error', (data) => {
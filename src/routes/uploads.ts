@@ -1,38 +1,120 @@
 import express from 'express';
 import logger from '../utils/logger';
-import multer from 'multer';
-import path from 'path';
-import crypto from 'crypto';
-import fs from 'fs';
 import { Embeddings } from '@langchain/core/embeddings';
 import { getAvailableEmbeddingModelProviders } from '../lib/providers';
-import { PDFLoader } from '@langchain/community/document_loaders/fs/pdf';
-import { DocxLoader } from '@langchain/community/document_loaders/fs/docx';
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
-import { Document } from 'langchain/document';
+import {
+  enqueueReembedJob,
+  enqueueUploadJob,
+  getUploadJob,
+} from '../lib/uploadQueue';
+import { getChunkingOptions, parseChunkingOptions } from '../lib/chunking';
+import {
+  deleteUnreferencedFiles,
+  deleteUploadedFileEverywhere,
+  getExtractedFile,
+  getUploadedFileIds,
+  getUploadedFileNames,
+  getUploadedFilePath,
+  handleUploadError,
+  listUploadedFiles,
+  upload,
+} from '../utils/files';
 
 const router = express.Router();
 
-const splitter = new RecursiveCharacterTextSplitter({
-  chunkSize: 500,
-  chunkOverlap: 100,
+const isFileId = (fileId: string) => /^[a-f0-9]+$/.test(fileId);
+
+router.get('/', async (_, res) => {
+  try {
+    const files = await listUploadedFiles();
+
+    return res.status(200).json({ files });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in getting uploaded files: ${err.message}`);
+  }
 });
 
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, path.join(process.cwd(), './uploads'));
-  },
-  filename: (req, file, cb) => {
-    const splitedFileName = file.originalname.split('.');
-    const fileExtension = splitedFileName[splitedFileName.length - 1];
-    if (!['pdf', 'docx', 'txt'].includes(fileExtension)) {
-      return cb(new Error('File type is not supported'), '');
+router.post('/reembed', async (req, res) => {
+  try {
+    const { embedding_model, embedding_model_provider, fileIds } = req.body;
+
+    if (!embedding_model || !embedding_model_provider) {
+      return res
+        .status(400)
+        .json({ message: 'Missing embedding model or provider' });
     }
-    cb(null, `${crypto.randomBytes(16).toString('hex')}.${fileExtension}`);
-  },
+
+    if (
+      fileIds !== undefined &&
+      (!Array.isArray(fileIds) ||
+        !fileIds.every((fileId) => typeof fileId === 'string'))
+    ) {
+      return res
+        .status(400)
+        .json({ message: 'fileIds must be an array of file IDs' });
+    }
+
+    const embeddingModels = await getAvailableEmbeddingModelProviders();
+
+    const embeddingsModel = embeddingModels[embedding_model_provider]?.[
+      embedding_model
+    ]?.model as Embeddings | undefined;
+
+    if (!embeddingsModel) {
+      return res
+        .status(400)
+        .json({ message: 'Invalid embedding model selected' });
+    }
+
+    const fileNames = getUploadedFileNames();
+    const selectedFileIds: string[] = fileIds ?? [...fileNames.keys()];
+
+    const missingFileIds = selectedFileIds.filter(
+      (fileId) => !fileNames.has(fileId),
+    );
+
+    if (missingFileIds.length > 0) {
+      return res
+        .status(404)
+        .json({ message: `Files not found: ${missingFileIds.join(', ')}` });
+    }
+
+    const job = enqueueReembedJob(
+      selectedFileIds.map((fileId) => ({
+        fileId,
+        fileName: fileNames.get(fileId),
+      })),
+      embeddingsModel,
+      `${embedding_model_provider}/${embedding_model}`,
+    );
+
+    return res.status(202).json({ jobId: job.id, files: job.files });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in re-embedding files: ${err.message}`);
+  }
 });
 
-const upload = multer({ storage });
+router.post('/gc', async (req, res) => {
+  try {
+    const minAgeHours = req.body?.minAgeHours ?? 24;
+
+    if (typeof minAgeHours !== 'number' || minAgeHours < 0) {
+      return res.status(400).json({ message: 'Invalid minAgeHours' });
+    }
+
+    const deletedFileIds = await deleteUnreferencedFiles(
+      getUploadedFileIds(),
+      minAgeHours * 60 * 60 * 1000,
+    );
+
+    return res.status(200).json({ deleted: deletedFileIds });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in cleaning up files: ${err.message}`);
+  }
+});
 
 router.post(
   '/',
@@ -40,6 +122,9 @@ router.post(
     { name: 'files' },
     { name: 'embedding_model', maxCount: 1 },
     { name: 'embedding_model_provider', maxCount: 1 },
+    { name: 'chunking_strategy', maxCount: 1 },
+    { name: 'chunk_size', maxCount: 1 },
+    { name: 'chunk_overlap', maxCount: 1 },
   ]),
   async (req, res) => {
     try {
@@ -80,67 +165,27 @@ router.post(
         return;
       }
 
-      await Promise.all(
-        files.map(async (file) => {
-          let docs: Document[] = [];
-
-          if (file.mimetype === 'application/pdf') {
-            const loader = new PDFLoader(file.path);
-            docs = await loader.load();
-          } else if (
-            file.mimetype ===
-            'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-          ) {
-            const loader = new DocxLoader(file.path);
-            docs = await loader.load();
-          } else if (file.mimetype === 'text/plain') {
-            const text = fs.readFileSync(file.path, 'utf-8');
-            docs = [
-              new Document({
-                pageContent: text,
-                metadata: {
-                  title: file.originalname,
-                },
-              }),
-            ];
-          }
-
-          const splitted = await splitter.splitDocuments(docs);
-
-          const json = JSON.stringify({
-            title: file.originalname,
-            contents: splitted.map((doc) => doc.pageContent),
-          });
-
-          const pathToSave = file.path.replace(/\.\w+$/, '-extracted.json');
-          fs.writeFileSync(pathToSave, json);
-
-          const embeddings = await embeddingsModel.embedDocuments(
-            splitted.map((doc) => doc.pageContent),
-          );
-
-          const embeddingsJSON = JSON.stringify({
-            title: file.originalname,
-            embeddings: embeddings,
-          });
-
-          const pathToSaveEmbeddings = file.path.replace(
-            /\.\w+$/,
-            '-embeddings.json',
-          );
-          fs.writeFileSync(pathToSaveEmbeddings, embeddingsJSON);
-        }),
+      const chunkingOverrides = parseChunkingOptions({
+        strategy: req.body.chunking_strategy,
+        chunkSize: req.body.chunk_size,
+        chunkOverlap: req.body.chunk_overlap,
+      });
+
+      if (!chunkingOverrides) {
+        res.status(400).json({ message: 'Invalid chunking options' });
+        return;
+      }
+
+      const chunking = getChunkingOptions('uploads', chunkingOverrides);
+
+      const job = enqueueUploadJob(
+        files,
+        embeddingsModel,
+        `${provider}/${embeddingModel}`,
+        chunking,
       );
 
-      res.status(200).json({
-        files: files.map((file) => {
-          return {
-            fileName: file.originalname,
-            fileExtension: file.filename.split('.').pop(),
-            fileId: file.filename.replace(/\.\w+$/, ''),
-          };
-        }),
-      });
+      res.status(202).json({ jobId: job.id, files: job.files });
     } catch (err: any) {
       logger.error(`Error in uploading file results: ${err.message}`);
       res.status(500).json({ message: 'An error has occurred.' });
@@ -148,4 +193,95 @@ router.post(
   },
 );
 
+router.get('/jobs/:jobId', async (req, res) => {
+  try {
+    const job = getUploadJob(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({ message: 'Upload job not found' });
+    }
+
+    return res.status(200).json({ job });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in getting upload job: ${err.message}`);
+  }
+});
+
+router.get('/:fileId', async (req, res) => {
+  try {
+    if (
+      !isFileId(req.params.fileId) ||
+      !getUploadedFilePath(req.params.fileId)
+    ) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+
+    const [file] = await listUploadedFiles([req.params.fileId]);
+
+    if (!file) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+
+    return res.status(200).json({ file });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in getting uploaded file: ${err.message}`);
+  }
+});
+
+router.delete('/:fileId', async (req, res) => {
+  try {
+    if (
+      !isFileId(req.params.fileId) ||
+      !getUploadedFilePath(req.params.fileId)
+    ) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+
+    await deleteUploadedFileEverywhere(req.params.fileId);
+
+    return res.status(200).json({ message: 'File deleted successfully' });
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in deleting uploaded file: ${err.message}`);
+  }
+});
+
+router.get('/:fileId/sections', async (req, res) => {
+  try {
+    const extractedFile = isFileId(req.params.fileId)
+      ? getExtractedFile(req.params.fileId)
+      : null;
+
+    if (!extractedFile) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+
+    return res.status(200).json(extractedFile);
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in getting file sections: ${err.message}`);
+  }
+});
+
+router.get('/:fileId/file', async (req, res) => {
+  try {
+    const filePath = isFileId(req.params.fileId)
+      ? getUploadedFilePath(req.params.fileId)
+      : null;
+
+    if (!filePath) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+
+    return res.sendFile(filePath);
+  } catch (err) {
+    res.status(500).json({ message: 'An error has occurred.' });
+    logger.error(`Error in getting file: ${err.message}`);
+  }
+});
+
+router.use(handleUploadError);
+
 export default router;
@@ -0,0 +1,413 @@
+import { ChatOpenAI } from '@langchain/openai';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { Embeddings } from '@langchain/core/embeddings';
+import {
+  ChatPromptTemplate,
+  MessagesPlaceholder,
+  PromptTemplate,
+} from '@langchain/core/prompts';
+import { BaseMessage } from '@langchain/core/messages';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { Document } from 'langchain/document';
+import eventEmitter from 'events';
+import LineListOutputParser from '../lib/outputParsers/listLineOutputParser';
+import { getSearchProvider, SearchResponse } from '../lib/searchProviders';
+import { getEmbeddingModelName } from '../lib/providers';
+import { getDocumentsFromLinks } from '../utils/documents';
+import computeSimilarity from '../utils/computeSimilarity';
+import hybridRank from '../utils/hybridRank';
+import { fileChunkToDocument, searchFileChunks } from '../lib/vectorStore';
+import formatChatHistoryAsString from '../utils/formatHistory';
+import logger from '../utils/logger';
+import { AbortableConfig, MetaSearchAgentType } from './metaSearchAgent';
+
+interface Config {
+  focusMode: string;
+  plannerPrompt: string;
+  gapPrompt: string;
+  responsePrompt: string;
+  activeEngines: string[];
+  maxIterations: number;
+  pagesPerQuery: number;
+  passagesPerQuery: number;
+  maxSources: number;
+}
+
+type ResearchNote = {
+  query: string;
+  doc: Document;
+};
+
+/* Notes are interleaved by rank across queries, so the gap searches of later iterations get their best passages into the report too */
+const selectSources = (notes: ResearchNote[], maxSources: number) => {
+  const queryNotes = new Map<string, Document[]>();
+
+  notes.forEach((note) =>
+    queryNotes.set(note.query, [
+      ...(queryNotes.get(note.query) ?? []),
+      note.doc,
+    ]),
+  );
+
+  const groups = Array.from(queryNotes.values());
+  const sources: Document[] = [];
+
+  for (
+    let rank = 0;
+    sources.length < maxSources && groups.some((docs) => docs.length > rank);
+    rank++
+  ) {
+    groups.forEach((docs) => {
+      if (docs[rank] && sources.length < maxSources) {
+        sources.push(docs[rank]);
+      }
+    });
+  }
+
+  return sources;
+};
+
+class DeepResearchAgent implements MetaSearchAgentType {
+  private config: Config;
+  private strParser = new StringOutputParser();
+
+  constructor(config: Config) {
+    this.config = config;
+  }
+
+  private emitData(emitter: eventEmitter, type: string, data: any) {
+    emitter.emit('data', JSON.stringify({ type, data }));
+  }
+
+  private async createPlan(
+    message: string,
+    history: BaseMessage[],
+    llm: BaseChatModel,
+    signal?: AbortSignal,
+  ) {
+    const planOutputParser = new LineListOutputParser({
+      key: 'plan',
+    });
+
+    const output = await PromptTemplate.fromTemplate(this.config.plannerPrompt)
+      .pipe(llm)
+      .pipe(this.strParser)
+      .invoke(
+        {
+          chat_history: formatChatHistoryAsString(history),
+          query: message,
+        },
+        { signal } as AbortableConfig,
+      );
+
+    const plan = await planOutputParser.parse(output);
+
+    if (plan.length === 1 && plan[0] === 'not_needed') {
+      return [];
+    }
+
+    return plan.length > 0 ? plan.slice(0, 5) : [message];
+  }
+
+  private async findGaps(
+    message: string,
+    notes: ResearchNote[],
+    searchedQueries: string[],
+    llm: BaseChatModel,
+    signal?: AbortSignal,
+  ) {
+    const queriesOutputParser = new LineListOutputParser({
+      key: 'queries',
+    });
+
+    const formattedNotes = notes
+      .map(
+        (note, i) =>
+          `${i + 1}. [${note.query}] ${note.doc.metadata.title}: ${note.doc.pageContent.slice(0, 300)}`,
+      )
+      .join('\n');
+
+    const output = await PromptTemplate.fromTemplate(this.config.gapPrompt)
+      .pipe(llm)
+      .pipe(this.strParser)
+      .invoke(
+        {
+          query: message,
+          notes: formattedNotes,
+        },
+        { signal } as AbortableConfig,
+      );
+
+    const queries = await queriesOutputParser.parse(output);
+
+    return queries
+      .filter(
+        (query) => query !== 'not_needed' && !searchedQueries.includes(query),
+      )
+      .slice(0, 3);
+  }
+
+  private async researchQuery(
+    query: string,
+    embeddings: Embeddings,
+    emitter: eventEmitter,
+  ) {
+    this.emitData(emitter, 'step', `Searching for "${query}"`);
+
+    let res: SearchResponse;
+
+    /* A failed search only loses this query, the research goes on with the others */
+    try {
+      res = await getSearchProvider(this.config.focusMode).search(query, {
+        language: 'en',
+        engines: this.config.activeEngines,
+      });
+    } catch (err) {
+      logger.error(`Error in searching for "${query}": ${err.message}`);
+      this.emitData(emitter, 'step', `Searching for "${query}" failed`);
+      return [];
+    }
+
+    const results = res.results.slice(0, this.config.pagesPerQuery);
+
+    if (results.length === 0) {
+      return [];
+    }
+
+    this.emitData(
+      emitter,
+      'step',
+      `Reading ${results.length} page${results.length !== 1 ? 's' : ''} for "${query}"`,
+    );
+
+    const pageDocs = await getDocumentsFromLinks({
+      links: results.map((result) => result.url),
+      embeddings,
+    });
+
+    const passages: Document[] = [];
+
+    results.forEach((result) => {
+      const resultPassages = pageDocs.filter(
+        (doc) =>
+          doc.metadata.url === result.url &&
+          doc.metadata.title !== 'Failed to retrieve content' &&
+          doc.pageContent.length > 0,
+      );
+
+      if (resultPassages.length === 0) {
+        if (result.content) {
+          passages.push(
+            new Document({
+              pageContent: result.content,
+              metadata: { title: result.title, url: result.url },
+            }),
+          );
+        }
+        return;
+      }
+
+      passages.push(
+        ...resultPassages.map(
+          (doc) =>
+            new Document({
+              pageContent: doc.pageContent,
+              metadata: { title: result.title, url: result.url },
+            }),
+        ),
+      );
+    });
+
+    if (passages.length === 0) {
+      return [];
+    }
+
+    const [passageEmbeddings, queryEmbedding] = await Promise.all([
+      embeddings.embedDocuments(passages.map((doc) => doc.pageContent)),
+      embeddings.embedQuery(query),
+    ]);
+
+    return hybridRank(
+      query,
+      passageEmbeddings.map((passageEmbedding, i) => ({
+        item: passages[i],
+        content: passages[i].pageContent,
+        similarity: computeSimilarity(queryEmbedding, passageEmbedding),
+      })),
+      -Infinity,
+    )
+      .slice(0, this.config.passagesPerQuery)
+      .map((result) => result.item);
+  }
+
+  private async searchFiles(
+    query: string,
+    fileIds: string[],
+    embeddings: Embeddings,
+  ) {
+    if (fileIds.length === 0) {
+      return [];
+    }
+
+    const results = await searchFileChunks(
+      query,
+      await embeddings.embedQuery(query),
+      fileIds,
+      {
+        limit: this.config.passagesPerQuery,
+        threshold: 0,
+        embeddingModel: getEmbeddingModelName(embeddings),
+      },
+    );
+
+    return results.map((result) => fileChunkToDocument(result.chunk));
+  }
+
+  private async research(
+    message: string,
+    history: BaseMessage[],
+    llm: BaseChatModel,
+    embeddings: Embeddings,
+    fileIds: string[],
+    emitter: eventEmitter,
+    signal?: AbortSignal,
+  ) {
+    (llm as unknown as ChatOpenAI).temperature = 0;
+
+    this.emitData(emitter, 'step', 'Planning the research');
+
+    const plan = await this.createPlan(message, history, llm, signal);
+
+    this.emitData(emitter, 'plan', plan);
+
+    const notes: ResearchNote[] = [];
+    const searchedQueries: string[] = [];
+    let queries = plan;
+    let plannedQueries = 0;
+
+    for (
+      let iteration = 0;
+      iteration < this.config.maxIterations && queries.length > 0;
+      iteration++
+    ) {
+      plannedQueries += queries.length;
+
+      for (const query of queries) {
+        signal?.throwIfAborted();
+
+        const passages = [
+          ...(await this.searchFiles(query, fileIds, embeddings)),
+          ...(await this.researchQuery(query, embeddings, emitter)),
+        ];
+
+        passages.forEach((doc) => {
+          const noteExists = notes.some(
+            (note) =>
+              note.doc.metadata.url === doc.metadata.url &&
+              note.doc.pageContent === doc.pageContent,
+          );
+
+          if (!noteExists) {
+            notes.push({ query, doc });
+          }
+        });
+
+        searchedQueries.push(query);
+
+        this.emitData(emitter, 'progress', {
+          iteration: iteration + 1,
+          maxIterations: this.config.maxIterations,
+          completed: searchedQueries.length,
+          total: plannedQueries,
+          sources: notes.length,
+        });
+      }
+
+      if (iteration === this.config.maxIterations - 1) {
+        break;
+      }
+
+      this.emitData(emitter, 'step', 'Looking for gaps in the research');
+
+      queries = await this.findGaps(
+        message,
+        notes,
+        searchedQueries,
+        llm,
+        signal,
+      );
+    }
+
+    const sources = selectSources(notes, this.config.maxSources);
+
+    this.emitData(emitter, 'sources', sources);
+    this.emitData(emitter, 'step', 'Writing the report');
+
+    const context = sources
+      .map(
+        (doc, index) =>
+          `${index + 1}. ${doc.metadata.title} ${doc.pageContent}`,
+      )
+      .join('\n');
+
+    const stream = await ChatPromptTemplate.fromMessages([
+      ['system', this.config.responsePrompt],
+      new MessagesPlaceholder('chat_history'),
+      ['user', '{query}'],
+    ])
+      .pipe(llm)
+      .pipe(this.strParser)
+      .stream(
+        {
+          chat_history: history,
+          query: message,
+          context,
+          date: new Date().toISOString(),
+        },
+        { signal } as AbortableConfig,
+      );
+
+    for await (const chunk of stream) {
+      this.emitData(emitter, 'response', chunk);
+    }
+
+    emitter.emit('end');
+  }
+
+  async searchAndAnswer(
+    message: string,
+    history: BaseMessage[],
+    llm: BaseChatModel,
+    embeddings: Embeddings,
+    optimizationMode: 'speed' | 'balanced' | 'quality',
+    fileIds: string[],
+    signal?: AbortSignal,
+  ) {
+    const emitter = new eventEmitter();
+
+    this.research(
+      message,
+      history,
+      llm,
+      embeddings,
+      fileIds,
+      emitter,
+      signal,
+    ).catch((err) => {
+      /* The research stops with an error once the client is gone, so there is no one to tell */
+      if (signal?.aborted) return;
+
+      logger.error(`Error in deep research: ${err.message}`);
+      emitter.emit(
+        'error',
+        JSON.stringify({
+          data: 'An error occurred while researching, please try again later.',
+        }),
+      );
+    });
+
+    return emitter;
+  }
+}
+
+export default DeepResearchAgent;
@@ -0,0 +1,252 @@
+import fs from 'fs';
+import path from 'path';
+import { Document } from '@langchain/core/documents';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SearchResponse } from '../lib/searchProviders';
+import { getDocumentsFromLinks } from '../utils/documents';
+import {
+  buildSearchDocuments,
+  fillEmptySnippets,
+  getDocumentBuilder,
+} from './documentBuilders';
+
+vi.mock('../utils/documents', () => ({
+  getDocumentsFromLinks: vi.fn(),
+}));
+
+/* Hand-written responses in the format of SearxNG's JSON API, with the fields the engines of each focus mode return */
+const loadFixture = (focusMode: string) =>
+  JSON.parse(
+    fs.readFileSync(
+      path.join(__dirname, 'fixtures', `${focusMode}.json`),
+      'utf-8',
+    ),
+  ) as SearchResponse & { query: string };
+
+const buildDocuments = async (focusMode: string) => {
+  const { query, ...response } = loadFixture(focusMode);
+
+  return buildSearchDocuments(
+    getDocumentBuilder(focusMode),
+    [query],
+    [response],
+  );
+};
+
+const pageDocument = (url: string, pageContent: string, title = 'Page') =>
+  new Document({ pageContent, metadata: { title, url } });
+
+describe('document builders', () => {
+  beforeEach(() => {
+    vi.mocked(getDocumentsFromLinks).mockReset();
+    vi.mocked(getDocumentsFromLinks).mockResolvedValue([]);
+  });
+
+  describe('snippets', () => {
+    it.each(['webSearch', 'academicSearch', 'youtubeSearch', 'redditSearch'])(
+      'uses the snippet rather than the title in %s',
+      (focusMode) => {
+        const { query, results } = loadFixture(focusMode);
+        const result = results.find((result) => result.content)!;
+
+        const doc = getDocumentBuilder(focusMode).toDocument(result, query);
+
+        expect(doc.pageContent).toBe(result.content.trim());
+        expect(doc.metadata).toMatchObject({
+          title: result.title,
+          url: result.url,
+          queries: [query],
+        });
+      },
+    );
+
+    it('leaves results without a snippet empty until a rule fills them', () => {
+      const { query, results } = loadFixture('webSearch');
+
+      const docs = results.map((result) =>
+        getDocumentBuilder('webSearch').toDocument(result, query),
+      );
+
+      expect(docs.map((doc) => doc.pageContent.length > 0)).toEqual([
+        true,
+        false,
+        false,
+      ]);
+    });
+  });
+
+  describe('search documents', () => {
+    it('interleaves the results of the queries by rank and keeps each page once', async () => {
+      const result = (url: string) => ({
+        title: url,
+        url,
+        content: `Snippet of ${url}`,
+      });
+
+      const docs = await buildSearchDocuments(
+        getDocumentBuilder('webSearch'),
+        ['first query', 'second query'],
+        [
+          {
+            results: [
+              result('https://a.example.com'),
+              result('https://b.example.com'),
+            ],
+            suggestions: [],
+          },
+          {
+            results: [
+              result('https://c.example.com'),
+              result('https://a.example.com'),
+              result('https://d.example.com'),
+            ],
+            suggestions: [],
+          },
+        ],
+      );
+
+      expect(docs.map((doc) => doc.metadata.url)).toEqual([
+        'https://a.example.com',
+        'https://c.example.com',
+        'https://b.example.com',
+        'https://d.example.com',
+      ]);
+      expect(docs[0].metadata.queries).toEqual(['first query', 'second query']);
+    });
+  });
+
+  describe('title rule', () => {
+    it.each(['youtubeSearch', 'redditSearch', 'writingAssistant'])(
+      'is used by %s',
+      (focusMode) => {
+        expect(getDocumentBuilder(focusMode).emptySnippet).toBe('title');
+      },
+    );
+
+    it('uses the title of videos without a description', async () => {
+      const docs = await buildDocuments('youtubeSearch');
+
+      expect(docs.map((doc) => doc.pageContent)).toEqual([
+        'How to make a sourdough starter from scratch',
+        'Is your starter not rising? Here are the five most common reasons.',
+      ]);
+      expect(getDocumentsFromLinks).not.toHaveBeenCalled();
+    });
+
+    it('uses the title of threads without a post body', async () => {
+      const docs = await buildDocuments('redditSearch');
+
+      expect(docs.map((doc) => doc.pageContent)).toEqual([
+        'Looking for something hot-swappable with decent stabilizers.',
+        'Keychron vs Royal Kludge',
+      ]);
+      expect(getDocumentsFromLinks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetch rule', () => {
+    it.each(['webSearch', 'academicSearch'])('is used by %s', (focusMode) => {
+      expect(getDocumentBuilder(focusMode).emptySnippet).toBe('fetch');
+    });
+
+    it('reads the pages of results without a snippet', async () => {
+      vi.mocked(getDocumentsFromLinks).mockResolvedValue([
+        pageDocument(
+          'https://blog.example.com/borrow-checker-explained',
+          'The borrow checker makes sure references never outlive their data.',
+        ),
+        pageDocument(
+          'https://forum.example.com/t/borrow-checker-errors',
+          '',
+          'Failed to retrieve content',
+        ),
+      ]);
+
+      const docs = await buildDocuments('webSearch');
+
+      expect(getDocumentsFromLinks).toHaveBeenCalledWith({
+        links: [
+          'https://blog.example.com/borrow-checker-explained',
+          'https://forum.example.com/t/borrow-checker-errors',
+        ],
+        embeddings: undefined,
+      });
+      expect(docs.map((doc) => doc.pageContent)).toEqual([
+        "A reference is like a pointer in that it's an address we can follow to access the data stored at that address.",
+        'The borrow checker makes sure references never outlive their data.',
+        /* Pages that can't be read fall back to the title */
+        'Common borrow checker errors',
+      ]);
+      expect(docs[1].metadata.title).toBe('The borrow checker, explained');
+    });
+
+    it('keeps the paper metadata of fetched papers', async () => {
+      vi.mocked(getDocumentsFromLinks).mockResolvedValue([
+        pageDocument(
+          'https://pubmed.ncbi.nlm.nih.gov/12345678',
+          'We review transformer models for clinical notes.',
+        ),
+      ]);
+
+      const docs = await buildDocuments('academicSearch');
+
+      expect(docs[0].metadata).toMatchObject({
+        authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+        year: 2017,
+        arxivId: '1706.03762v7',
+      });
+      expect(docs[1].pageContent).toBe(
+        'We review transformer models for clinical notes.',
+      );
+      expect(docs[1].metadata).toMatchObject({
+        authors: ['Jane Doe'],
+        venue: 'Journal of Biomedical Informatics',
+      });
+    });
+
+    it('reads at most five pages per search', async () => {
+      const docs = Array.from(
+        { length: 8 },
+        (_, i) =>
+          new Document({
+            pageContent: '',
+            metadata: { title: `Result ${i}`, url: `https://example.com/${i}` },
+          }),
+      );
+
+      const filledDocs = await fillEmptySnippets(docs, 'fetch');
+
+      expect(
+        vi.mocked(getDocumentsFromLinks).mock.calls[0][0].links,
+      ).toHaveLength(5);
+      expect(filledDocs.map((doc) => doc.pageContent)).toEqual(
+        docs.map((doc) => doc.metadata.title),
+      );
+    });
+  });
+
+  describe('drop rule', () => {
+    it('is used by wolframAlphaSearch', () => {
+      expect(getDocumentBuilder('wolframAlphaSearch').emptySnippet).toBe(
+        'drop',
+      );
+    });
+
+    it('leaves out results without a snippet and keeps every pod', async () => {
+      const docs = await buildDocuments('wolframAlphaSearch');
+
+      expect(docs.map((doc) => doc.metadata.pod)).toEqual([
+        'Input interpretation',
+        'Indefinite integral',
+        'Plots of the integral',
+      ]);
+      expect(docs[1].pageContent).toBe('integral x^2 dx = x^3/3 + constant');
+      /* Plots without alt text are described by their label */
+      expect(docs[2].pageContent).toBe('Plots of the integral (image)');
+      expect(docs[2].metadata.img_src).toBe(
+        'https://www6b3.wolframalpha.com/Calculate/MSP/MSP1.gif',
+      );
+      expect(getDocumentsFromLinks).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { Document } from '@langchain/core/documents';
+import type { Embeddings } from '@langchain/core/embeddings';
+import type {
+  SearchInfobox,
+  SearchResponse,
+  SearchResult,
+} from '../lib/searchProviders';
+import { getDocumentsFromLinks } from '../utils/documents';
+import { getPaperMetadata } from '../lib/papers';
+
+/* What happens to a search result without a snippet: its title is used as its content, its page is read, or it is left out */
+export type EmptySnippetRule = 'title' | 'fetch' | 'drop';
+
+export interface DocumentBuilder {
+  emptySnippet: EmptySnippetRule;
+  toDocument: (result: SearchResult, query: string) => Document;
+  /* Infoboxes are left out unless the focus mode turns them into documents */
+  infoboxToDocuments?: (infobox: SearchInfobox, query: string) => Document[];
+}
+
+/* Pages read at most for results without a snippet, so a search with many of them stays fast */
+const maxFetchedSnippets = 5;
+
+const toDocument = (result: SearchResult, query: string) =>
+  new Document({
+    pageContent: result.content?.trim() ?? '',
+    metadata: {
+      title: result.title,
+      url: result.url,
+      queries: [query],
+      ...(result.img_src && { img_src: result.img_src }),
+    },
+  });
+
+const toPaperDocument = (result: SearchResult, query: string) => {
+  const doc = toDocument(result, query);
+
+  return new Document({
+    pageContent: doc.pageContent,
+    metadata: { ...doc.metadata, ...getPaperMetadata(result) },
+  });
+};
+
+/* Every pod becomes its own source, so exact computed values reach the answer as they are. Plots keep their image */
+const podsToDocuments = (infobox: SearchInfobox, query: string) =>
+  (infobox.attributes ?? []).map(
+    (pod) =>
+      new Document({
+        pageContent:
+          pod.value?.trim() ||
+          pod.image?.alt?.trim() ||
+          (pod.image ? `${pod.label} (image)` : ''),
+        metadata: {
+          title: `${infobox.infobox}: ${pod.label}`,
+          url:
+            infobox.urls?.[0]?.url ??
+            `https://www.wolframalpha.com/input?i=${encodeURIComponent(query)}`,
+          queries: [query],
+          pod: pod.label,
+          ...(pod.image && { img_src: pod.image.src }),
+        },
+      }),
+  );
+
+const documentBuilders: Record<string, DocumentBuilder> = {
+  webSearch: { emptySnippet: 'fetch', toDocument },
+  academicSearch: { emptySnippet: 'fetch', toDocument: toPaperDocument },
+  wolframAlphaSearch: {
+    emptySnippet: 'drop',
+    toDocument,
+    infoboxToDocuments: podsToDocuments,
+  },
+  /* Video titles describe the video well, and transcripts are read later on */
+  youtubeSearch: { emptySnippet: 'title', toDocument },
+  redditSearch: { emptySnippet: 'title', toDocument },
+};
+
+const defaultDocumentBuilder: DocumentBuilder = {
+  emptySnippet: 'title',
+  toDocument,
+};
+
+export const getDocumentBuilder = (focusMode: string) =>
+  documentBuilders[focusMode] ?? defaultDocumentBuilder;
+
+const useTitle = (doc: Document) =>
+  new Document({
+    pageContent: doc.metadata.title ?? '',
+    metadata: doc.metadata,
+  });
+
+export const fillEmptySnippets = async (
+  docs: Document[],
+  rule: EmptySnippetRule,
+  embeddings?: Embeddings,
+) => {
+  const emptyDocs = docs.filter((doc) => doc.pageContent.length === 0);
+
+  if (emptyDocs.length === 0) {
+    return docs;
+  }
+
+  if (rule === 'drop') {
+    return docs.filter((doc) => doc.pageContent.length > 0);
+  }
+
+  if (rule === 'title') {
+    return docs.map((doc) =>
+      doc.pageContent.length > 0 ? doc : useTitle(doc),
+    );
+  }
+
+  const fetchedDocs = emptyDocs.slice(0, maxFetchedSnippets);
+
+  const pageDocs = await getDocumentsFromLinks({
+    links: fetchedDocs.map((doc) => doc.metadata.url),
+    embeddings,
+  });
+
+  return docs.map((doc) => {
+    if (doc.pageContent.length > 0) return doc;
+
+    const pageDoc = fetchedDocs.includes(doc)
+      ? pageDocs.find(
+          (pageDoc) =>
+            pageDoc.metadata.url === doc.metadata.url &&
+            pageDoc.metadata.title !== 'Failed to retrieve content' &&
+            pageDoc.pageContent.length > 0,
+        )
+      : undefined;
+
+    return pageDoc
+      ? new Document({
+          pageContent: pageDoc.pageContent,
+          metadata: doc.metadata,
+        })
+      : useTitle(doc);
+  });
+};
+
+/* Turns the responses to the queries of a search into documents: the infobox documents come first, then the results interleaved by rank so every query gets its best hits near the top. A result found by several queries is kept once */
+export const buildSearchDocuments = async (
+  documentBuilder: DocumentBuilder,
+  queries: string[],
+  searchResults: SearchResponse[],
+  embeddings?: Embeddings,
+) => {
+  const documents: Document[] = [];
+  const maxResults = Math.max(
+    ...searchResults.map((res) => res.results.length),
+  );
+
+  for (let rank = 0; rank < maxResults; rank++) {
+    searchResults.forEach((res, i) => {
+      const result = res.results[rank];
+
+      if (!result) return;
+
+      const existingDoc = documents.find(
+        (doc) => doc.metadata.url === result.url,
+      );
+
+      if (existingDoc) {
+        if (!existingDoc.metadata.queries.includes(queries[i])) {
+          existingDoc.metadata.queries.push(queries[i]);
+        }
+        return;
+      }
+
+      documents.push(documentBuilder.toDocument(result, queries[i]));
+    });
+  }
+
+  const infoboxDocs = documentBuilder.infoboxToDocuments
+    ? searchResults.flatMap((res, i) =>
+        (res.infoboxes ?? []).flatMap((infobox) =>
+          documentBuilder.infoboxToDocuments(infobox, queries[i]),
+        ),
+      )
+    : [];
+
+  return [
+    ...(await fillEmptySnippets(
+      infoboxDocs,
+      documentBuilder.emptySnippet,
+      embeddings,
+    )),
+    ...(await fillEmptySnippets(
+      documents,
+      documentBuilder.emptySnippet,
+      embeddings,
+    )),
+  ];
+};
@@ -7,6 +7,7 @@ import {
   PromptTemplate,
 } from '@langchain/core/prompts';
 import {
+  RunnableConfig,
   RunnableLambda,
   RunnableMap,
   RunnableSequence,
@@ -16,11 +17,31 @@ import { StringOutputParser } from '@langchain/core/output_parsers';
 import LineListOutputParser from '../lib/outputParsers/listLineOutputParser';
 import LineOutputParser from '../lib/outputParsers/lineOutputParser';
 import { getDocumentsFromLinks } from '../utils/documents';
+import { getChunkingOptions } from '../lib/chunking';
+import { buildSearchDocuments, getDocumentBuilder } from './documentBuilders';
+import {
+  chunkTranscript,
+  formatTimestamp,
+  getYoutubeTimestampUrl,
+  getYoutubeTranscript,
+  getYoutubeVideoId,
+} from '../lib/youtube';
+import { getRedditThread, getRedditThreadPath } from '../lib/reddit';
+import { getPaperCitation, getPaperLink } from '../lib/papers';
 import { Document } from 'langchain/document';
-import { searchSearxng } from '../lib/searxng';
-import path from 'path';
-import fs from 'fs';
+import { getSearchProvider } from '../lib/searchProviders';
+import { getEmbeddingModelName } from '../lib/providers';
+import {
+  fileChunkToDocument,
+  getFileChunks,
+  searchFileChunks,
+} from '../lib/vectorStore';
 import computeSimilarity from '../utils/computeSimilarity';
+import hybridRank from '../utils/hybridRank';
+import gradeRelevance from '../chains/relevanceGraderAgent';
+import { HuggingFaceCrossEncoder } from '../lib/huggingfaceCrossEncoder';
+import { getFocusModeReranker } from '../config';
+import logger from '../utils/logger';
 import formatChatHistoryAsString from '../utils/formatHistory';
 import eventEmitter from 'events';
 import { StreamEvent } from '@langchain/core/tracers/log_stream';
@@ -34,19 +55,53 @@ export interface MetaSearchAgentType {
     embeddings: Embeddings,
     optimizationMode: 'speed' | 'balanced' | 'quality',
     fileIds: string[],
+    signal?: AbortSignal,
   ) => Promise<eventEmitter>;
 }
 
 interface Config {
+  focusMode: string;
   searchWeb: boolean;
   rerank: boolean;
   summarizer: boolean;
   rerankThreshold: number;
+  reranker?: 'llm' | 'crossEncoder';
+  transcripts?: boolean;
+  redditThreads?: boolean;
+  papers?: boolean;
   queryGeneratorPrompt: string;
   responsePrompt: string;
   activeEngines: string[];
 }
 
+/* The model is downloaded on first use, so it is only created once a focus mode uses it */
+let crossEncoder: HuggingFaceCrossEncoder | undefined;
+
+const getCrossEncoder = () => (crossEncoder ??= new HuggingFaceCrossEncoder());
+
+const maxTranscriptVideos = 5;
+const maxRedditThreads = 5;
+const maxRedditCommentLength = 2000;
+const maxPages = 10;
+const maxPapers = 10;
+/* Full PDFs are long and slow to download, the other papers are read from their landing page */
+const maxPaperPdfs = 3;
+
+/* Speed mode reads the transcripts, threads and papers of fewer results, so it still answers quickly */
+const maxSpeedModeSources = 2;
+
+const getSourceLimit = (
+  limit: number,
+  optimizationMode: 'speed' | 'balanced' | 'quality',
+) =>
+  optimizationMode === 'speed' ? Math.min(limit, maxSpeedModeSources) : limit;
+
+/* Attached files up to this size are passed whole to focus modes that don't search the web, so the model sees the complete document */
+const maxFullFileChunks = 30;
+
+/* The chain passes its config on to every step, and chat models take the abort signal from it as a call option */
+export type AbortableConfig = RunnableConfig & { signal?: AbortSignal };
+
 type BasicChainInput = {
   chat_history: BaseMessage[];
   query: string;
@@ -60,14 +115,17 @@ class MetaSearchAgent implements MetaSearchAgentType {
     this.config = config;
   }
 
-  private async createSearchRetrieverChain(llm: BaseChatModel) {
+  private async createSearchRetrieverChain(
+    llm: BaseChatModel,
+    embeddings: Embeddings,
+  ) {
     (llm as unknown as ChatOpenAI).temperature = 0;
 
     return RunnableSequence.from([
       PromptTemplate.fromTemplate(this.config.queryGeneratorPrompt),
       llm,
       this.strParser,
-      RunnableLambda.from(async (input: string) => {
+      RunnableLambda.from(async (input: string, config) => {
         const linksOutputParser = new LineListOutputParser({
           key: 'links',
         });
@@ -128,7 +186,8 @@ class MetaSearchAgent implements MetaSearchAgentType {
 
           await Promise.all(
             docGroups.map(async (doc) => {
-              const res = await llm.invoke(`
+              const res = await llm.invoke(
+                `
             You are a web search summarizer, tasked with summarizing a piece of text retrieved from a web search. Your job is to summarize the 
             text into a detailed, 2-4 paragraph explanation that captures the main ideas and provides a comprehensive answer to the query.
             If the query is \"summarize\", you should provide a detailed summary of the text. If the query is a specific question, you should answer it in the summary.
@@ -187,7 +246,9 @@ class MetaSearchAgent implements MetaSearchAgentType {
             </text>
 
             Make sure to answer the query in the summary.
-          `);
+          `,
+                { signal: (config as AbortableConfig)?.signal },
+              );
 
               const document = new Document({
                 pageContent: res.content as string,
@@ -203,28 +264,36 @@ class MetaSearchAgent implements MetaSearchAgentType {
 
           return { query: question, docs: docs };
         } else {
-          const res = await searchSearxng(question, {
-            language: 'en',
-            engines: this.config.activeEngines,
+          const queriesOutputParser = new LineListOutputParser({
+            key: 'queries',
           });
 
-          const documents = res.results.map(
-            (result) =>
-              new Document({
-                pageContent:
-                  result.content ||
-                  this.config.activeEngines.includes('youtube')
-                    ? result.title
-                    : '' /* Todo: Implement transcript grabbing using Youtubei (source: https://www.npmjs.com/package/youtubei) */,
-                metadata: {
-                  title: result.title,
-                  url: result.url,
-                  ...(result.img_src && { img_src: result.img_src }),
-                },
+          const subQueries = this.config.summarizer
+            ? (await queriesOutputParser.parse(input)).slice(0, 4)
+            : [];
+          const queries = subQueries.length > 0 ? subQueries : [question];
+
+          const searchProvider = getSearchProvider(this.config.focusMode);
+          const documentBuilder = getDocumentBuilder(this.config.focusMode);
+
+          const searchResults = await Promise.all(
+            queries.map((subQuery) =>
+              searchProvider.search(subQuery, {
+                language: 'en',
+                engines: this.config.activeEngines,
               }),
+            ),
           );
 
-          return { query: question, docs: documents };
+          return {
+            query: question,
+            docs: await buildSearchDocuments(
+              documentBuilder,
+              queries,
+              searchResults,
+              embeddings,
+            ),
+          };
         }
       }),
     ]);
@@ -241,7 +310,7 @@ class MetaSearchAgent implements MetaSearchAgentType {
         query: (input: BasicChainInput) => input.query,
         chat_history: (input: BasicChainInput) => input.chat_history,
         date: () => new Date().toISOString(),
-        context: RunnableLambda.from(async (input: BasicChainInput) => {
+        context: RunnableLambda.from(async (input: BasicChainInput, config) => {
           const processedHistory = formatChatHistoryAsString(
             input.chat_history,
           );
@@ -250,27 +319,36 @@ class MetaSearchAgent implements MetaSearchAgentType {
           let query = input.query;
 
           if (this.config.searchWeb) {
-            const searchRetrieverChain =
-              await this.createSearchRetrieverChain(llm);
+            const searchRetrieverChain = await this.createSearchRetrieverChain(
+              llm,
+              embeddings,
+            );
 
-            const searchRetrieverResult = await searchRetrieverChain.invoke({
-              chat_history: processedHistory,
-              query,
-            });
+            const searchRetrieverResult = await searchRetrieverChain.invoke(
+              { chat_history: processedHistory, query },
+              {
+                signal: (config as AbortableConfig)?.signal,
+              } as AbortableConfig,
+            );
 
             query = searchRetrieverResult.query;
             docs = searchRetrieverResult.docs;
           }
 
+          /* Pods of computed answers, like Wolfram Alpha's, are exact, so they skip reranking and are always kept ahead of the other sources */
+          const podDocs = (docs ?? []).filter((doc) => doc.metadata.pod);
+
+          /* The retriever returns an empty query when no web search is needed, attached files are still searched with the user's message */
           const sortedDocs = await this.rerankDocs(
-            query,
-            docs ?? [],
+            query || input.query,
+            (docs ?? []).filter((doc) => !doc.metadata.pod),
             fileIds,
+            llm,
             embeddings,
             optimizationMode,
           );
 
-          return sortedDocs;
+          return [...podDocs, ...sortedDocs];
         })
           .withConfig({
             runName: 'FinalSourceRetriever',
@@ -293,6 +371,7 @@ class MetaSearchAgent implements MetaSearchAgentType {
     query: string,
     docs: Document[],
     fileIds: string[],
+    llm: BaseChatModel,
     embeddings: Embeddings,
     optimizationMode: 'speed' | 'balanced' | 'quality',
   ) {
@@ -300,70 +379,51 @@ class MetaSearchAgent implements MetaSearchAgentType {
       return docs;
     }
 
-    const filesData = fileIds
-      .map((file) => {
-        const filePath = path.join(process.cwd(), 'uploads', file);
-
-        const contentPath = filePath + '-extracted.json';
-        const embeddingsPath = filePath + '-embeddings.json';
-
-        const content = JSON.parse(fs.readFileSync(contentPath, 'utf8'));
-        const embeddings = JSON.parse(fs.readFileSync(embeddingsPath, 'utf8'));
-
-        const fileSimilaritySearchObject = content.contents.map(
-          (c: string, i) => {
-            return {
-              fileName: content.title,
-              content: c,
-              embeddings: embeddings.embeddings[i],
-            };
-          },
-        );
-
-        return fileSimilaritySearchObject;
-      })
-      .flat();
-
     if (query.toLocaleLowerCase() === 'summarize') {
       return docs.slice(0, 15);
     }
 
+    if (!this.config.searchWeb && fileIds.length > 0) {
+      const fileChunks = await getFileChunks(fileIds);
+
+      if (fileChunks.length <= maxFullFileChunks) {
+        return fileChunks.map(fileChunkToDocument);
+      }
+    }
+
+    const threshold = this.config.rerankThreshold ?? 0.3;
+
     const docsWithContent = docs.filter(
       (doc) => doc.pageContent && doc.pageContent.length > 0,
     );
 
-    if (optimizationMode === 'speed' || this.config.rerank === false) {
-      if (filesData.length > 0) {
-        const [queryEmbedding] = await Promise.all([
-          embeddings.embedQuery(query),
-        ]);
-
-        const fileDocs = filesData.map((fileData) => {
-          return new Document({
-            pageContent: fileData.content,
-            metadata: {
-              title: fileData.fileName,
-              url: `File`,
-            },
-          });
-        });
-
-        const similarity = filesData.map((fileData, i) => {
-          const sim = computeSimilarity(queryEmbedding, fileData.embeddings);
-
-          return {
-            index: i,
-            similarity: sim,
-          };
-        });
+    /* Focus modes that read transcripts, threads or papers need them in every mode, the passages are ranked without a reranker in speed mode */
+    const readsSources =
+      this.config.transcripts ||
+      this.config.redditThreads ||
+      this.config.papers;
+
+    if (
+      (optimizationMode === 'speed' && !readsSources) ||
+      this.config.rerank === false
+    ) {
+      if (fileIds.length > 0) {
+        const queryEmbedding = await embeddings.embedQuery(query);
+
+        const fileResults = await searchFileChunks(
+          query,
+          queryEmbedding,
+          fileIds,
+          {
+            limit: 15,
+            threshold,
+            embeddingModel: getEmbeddingModelName(embeddings),
+          },
+        );
 
-        let sortedDocs = similarity
-          .filter(
-            (sim) => sim.similarity > (this.config.rerankThreshold ?? 0.3),
-          )
-          .sort((a, b) => b.similarity - a.similarity)
-          .slice(0, 15)
-          .map((sim) => fileDocs[sim.index]);
+        let sortedDocs = fileResults.map((result) =>
+          fileChunkToDocument(result.chunk),
+        );
 
         sortedDocs =
           docsWithContent.length > 0 ? sortedDocs.slice(0, 8) : sortedDocs;
@@ -375,61 +435,314 @@ class MetaSearchAgent implements MetaSearchAgentType {
       } else {
         return docsWithContent.slice(0, 15);
       }
-    } else if (optimizationMode === 'balanced') {
+    } else {
+      const candidateDocs = await this.getCandidateDocs(
+        docsWithContent,
+        embeddings,
+        optimizationMode,
+      );
+
       const [docEmbeddings, queryEmbedding] = await Promise.all([
-        embeddings.embedDocuments(
-          docsWithContent.map((doc) => doc.pageContent),
-        ),
+        embeddings.embedDocuments(candidateDocs.map((doc) => doc.pageContent)),
         embeddings.embedQuery(query),
       ]);
 
-      docsWithContent.push(
-        ...filesData.map((fileData) => {
-          return new Document({
-            pageContent: fileData.content,
-            metadata: {
-              title: fileData.fileName,
-              url: `File`,
-            },
-          });
-        }),
+      const fileResults = await searchFileChunks(
+        query,
+        queryEmbedding,
+        fileIds,
+        {
+          limit: 15,
+          threshold,
+          embeddingModel: getEmbeddingModelName(embeddings),
+        },
+      );
+
+      const candidates = [
+        ...docEmbeddings.map((docEmbedding, i) => ({
+          item: candidateDocs[i],
+          content: `${candidateDocs[i].metadata.title ?? ''} ${candidateDocs[i].pageContent}`,
+          similarity: computeSimilarity(queryEmbedding, docEmbedding),
+        })),
+        ...fileResults.map((result) => ({
+          item: fileChunkToDocument(result.chunk),
+          content: result.chunk.content,
+          similarity: result.similarity,
+        })),
+      ];
+
+      const sortedDocs = hybridRank(query, candidates, threshold).map(
+        (result) => result.item,
+      );
+
+      const reranker =
+        optimizationMode === 'speed' ? undefined : this.getReranker();
+
+      if (reranker) {
+        return (
+          await this.rerankWithModel(
+            query,
+            sortedDocs.slice(0, 25),
+            llm,
+            reranker,
+          )
+        ).slice(0, 15);
+      }
+
+      return sortedDocs.slice(0, 15);
+    }
+  }
+
+  /* The config file can turn the reranker of a focus mode on, or off with "none" */
+  private getReranker() {
+    const reranker =
+      getFocusModeReranker(this.config.focusMode) ?? this.config.reranker;
+
+    return reranker === 'none' ? undefined : reranker;
+  }
+
+  private async rerankWithModel(
+    query: string,
+    docs: Document[],
+    llm: BaseChatModel,
+    reranker: 'llm' | 'crossEncoder',
+  ) {
+    if (docs.length === 0) {
+      return docs;
+    }
+
+    try {
+      let scores: (number | null)[];
+
+      if (reranker === 'llm') {
+        scores = await gradeRelevance(query, docs, llm);
+      } else if (reranker === 'crossEncoder') {
+        scores = await getCrossEncoder().rank(
+          query,
+          docs.map((doc) => `${doc.metadata.title ?? ''} ${doc.pageContent}`),
+        );
+      } else {
+        throw new Error(`Invalid reranker: ${reranker}`);
+      }
+
+      /* Ungraded documents keep their previous order after the graded ones */
+      return docs
+        .map((doc, i) => ({ doc, score: scores[i] ?? -1, index: i }))
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map((result) => result.doc);
+    } catch (err) {
+      logger.error(`Error in reranking documents: ${err.message}`);
+      return docs;
+    }
+  }
+
+  /* Reads the page at each document's link, which is its URL unless other links are given */
+  private async getPagePassages(
+    docs: Document[],
+    embeddings: Embeddings,
+    links = docs.map((doc) => doc.metadata.url as string),
+  ) {
+    const pageDocs = await getDocumentsFromLinks({
+      links,
+      embeddings,
+    });
+
+    const passages: Document[] = [];
+
+    docs.forEach((doc, i) => {
+      const docPassages = pageDocs
+        .filter(
+          (pageDoc) =>
+            pageDoc.metadata.url === links[i] &&
+            pageDoc.metadata.title !== 'Failed to retrieve content' &&
+            pageDoc.pageContent.length > 0,
+        )
+        .slice(0, 20);
+
+      if (docPassages.length === 0) {
+        passages.push(doc);
+        return;
+      }
+
+      passages.push(
+        ...docPassages.map(
+          (pageDoc) =>
+            new Document({
+              pageContent: pageDoc.pageContent,
+              metadata: {
+                ...doc.metadata,
+              },
+            }),
+        ),
       );
+    });
 
-      docEmbeddings.push(...filesData.map((fileData) => fileData.embeddings));
+    return passages;
+  }
 
-      const similarity = docEmbeddings.map((docEmbedding, i) => {
-        const sim = computeSimilarity(queryEmbedding, docEmbedding);
+  private async getCandidateDocs(
+    docs: Document[],
+    embeddings: Embeddings,
+    optimizationMode: 'speed' | 'balanced' | 'quality',
+  ) {
+    if (this.config.transcripts) {
+      return this.getTranscriptPassages(
+        docs,
+        getSourceLimit(maxTranscriptVideos, optimizationMode),
+      );
+    }
 
-        return {
-          index: i,
-          similarity: sim,
-        };
-      });
+    if (this.config.redditThreads) {
+      return this.getRedditPassages(
+        docs,
+        getSourceLimit(maxRedditThreads, optimizationMode),
+      );
+    }
 
-      const sortedDocs = similarity
-        .filter((sim) => sim.similarity > (this.config.rerankThreshold ?? 0.3))
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, 15)
-        .map((sim) => docsWithContent[sim.index]);
+    if (this.config.papers) {
+      return this.getPaperPassages(docs, embeddings, optimizationMode);
+    }
+
+    /* The pages of the top results are read, the rest are still ranked by their snippet */
+    if (optimizationMode === 'quality') {
+      const topDocs = docs.slice(0, maxPages);
+      const passages = await this.getPagePassages(topDocs, embeddings);
 
-      return sortedDocs;
+      return [...passages, ...docs.slice(topDocs.length)];
     }
+
+    return docs;
+  }
+
+  /* Replaces the top papers with passages of their full text or abstract. Only the first few PDFs are read */
+  private async getPaperPassages(
+    docs: Document[],
+    embeddings: Embeddings,
+    optimizationMode: 'speed' | 'balanced' | 'quality',
+  ) {
+    const topDocs = docs.slice(0, getSourceLimit(maxPapers, optimizationMode));
+    const pdfDocs = topDocs
+      .filter((doc) => doc.metadata.pdfUrl)
+      .slice(0, getSourceLimit(maxPaperPdfs, optimizationMode));
+
+    const passages = await this.getPagePassages(
+      topDocs,
+      embeddings,
+      topDocs.map((doc) => getPaperLink(doc.metadata, pdfDocs.includes(doc))),
+    );
+
+    return [...passages, ...docs.slice(topDocs.length)];
+  }
+
+  /* Replaces the top videos with passages of their transcripts, each linking to the second it starts at */
+  private async getTranscriptPassages(docs: Document[], limit: number) {
+    const topDocs = docs.slice(0, limit);
+    const { chunkSize } = getChunkingOptions('webPages');
+
+    const passages = await Promise.all(
+      topDocs.map(async (doc) => {
+        const videoId = getYoutubeVideoId(doc.metadata.url);
+
+        if (!videoId) return [doc];
+
+        try {
+          const transcript = await getYoutubeTranscript(videoId);
+
+          if (transcript.length === 0) return [doc];
+
+          return chunkTranscript(transcript, chunkSize).map(
+            (chunk) =>
+              new Document({
+                pageContent: chunk.text,
+                metadata: {
+                  ...doc.metadata,
+                  title: `${doc.metadata.title} (${formatTimestamp(chunk.start)})`,
+                  url: getYoutubeTimestampUrl(videoId, chunk.start),
+                  timestamp: Math.floor(chunk.start),
+                },
+              }),
+          );
+        } catch (err) {
+          logger.error(
+            `Error in getting transcript of ${doc.metadata.url}: ${err.message}`,
+          );
+          return [doc];
+        }
+      }),
+    );
+
+    return [...passages.flat(), ...docs.slice(limit)];
+  }
+
+  /* Replaces the top threads with their post and highest scored comments, so each comment can be ranked and cited on its own */
+  private async getRedditPassages(docs: Document[], limit: number) {
+    const topDocs = docs.slice(0, limit);
+
+    const passages = await Promise.all(
+      topDocs.map(async (doc) => {
+        const threadPath = getRedditThreadPath(doc.metadata.url);
+
+        if (!threadPath) return [doc];
+
+        try {
+          const { post, comments } = await getRedditThread(threadPath);
+
+          return [
+            new Document({
+              pageContent: post.body || post.title,
+              metadata: {
+                ...doc.metadata,
+                title: `${post.title} (r/${post.subreddit}, ${post.score} points, ${post.commentCount} comments)`,
+                url: post.url,
+                author: post.author,
+                score: post.score,
+              },
+            }),
+            ...comments.map(
+              (comment) =>
+                new Document({
+                  pageContent: comment.body.slice(0, maxRedditCommentLength),
+                  metadata: {
+                    ...doc.metadata,
+                    title: `Comment by u/${comment.author} (${comment.score} points) on "${post.title}"`,
+                    url: comment.url,
+                    author: comment.author,
+                    score: comment.score,
+                  },
+                }),
+            ),
+          ];
+        } catch (err) {
+          logger.error(
+            `Error in getting Reddit thread ${doc.metadata.url}: ${err.message}`,
+          );
+          return [doc];
+        }
+      }),
+    );
+
+    return [...passages.flat(), ...docs.slice(limit)];
   }
 
   private processDocs(docs: Document[]) {
     return docs
-      .map(
-        (_, index) =>
-          `${index + 1}. ${docs[index].metadata.title} ${docs[index].pageContent}`,
-      )
+      .map((_, index) => {
+        const citation = getPaperCitation(docs[index].metadata);
+
+        return `${index + 1}. ${docs[index].metadata.title}${citation ? ` (${citation})` : ''} ${docs[index].pageContent}`;
+      })
       .join('\n');
   }
 
   private async handleStream(
     stream: IterableReadableStream<StreamEvent>,
     emitter: eventEmitter,
+    signal?: AbortSignal,
   ) {
     for await (const event of stream) {
+      /* Leaving the loop cancels the stream, so the rest of the chain isn't run */
+      if (signal?.aborted) break;
+
       if (
         event.event === 'on_chain_end' &&
         event.name === 'FinalSourceRetriever'
@@ -465,6 +778,7 @@ class MetaSearchAgent implements MetaSearchAgentType {
     embeddings: Embeddings,
     optimizationMode: 'speed' | 'balanced' | 'quality',
     fileIds: string[],
+    signal?: AbortSignal,
   ) {
     const emitter = new eventEmitter();
 
@@ -482,10 +796,22 @@ class MetaSearchAgent implements MetaSearchAgentType {
       },
       {
         version: 'v1',
+        ...({ signal } as AbortableConfig),
       },
     );
 
-    this.handleStream(stream, emitter);
+    /* An aborted search throws once the client is gone, so there is no one to tell */
+    this.handleStream(stream, emitter, signal).catch((err) => {
+      if (signal?.aborted) return;
+
+      logger.error(`Error in searching: ${err.message}`);
+      emitter.emit(
+        'error',
+        JSON.stringify({
+          data: 'An error occurred while searching, please try again later.',
+        }),
+      );
+    });
 
     return emitter;
   }
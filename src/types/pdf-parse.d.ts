@@ -0,0 +1,36 @@
+/* The pdf.js build bundled with pdf-parse, which PDFLoader uses to read PDFs. Only the parts used to find page images are typed */
+declare module 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js' {
+  export interface PDFImage {
+    width: number;
+    height: number;
+    kind: number;
+    data: Uint8ClampedArray;
+  }
+
+  export interface PDFObjects {
+    get(objId: string): PDFImage | undefined;
+  }
+
+  export interface PDFPageProxy {
+    objs: PDFObjects;
+    commonObjs: PDFObjects;
+    getOperatorList(): Promise<{ fnArray: number[]; argsArray: any[][] }>;
+  }
+
+  export interface PDFDocumentProxy {
+    numPages: number;
+    getPage(pageNumber: number): Promise<PDFPageProxy>;
+    destroy(): Promise<void>;
+  }
+
+  const pdfjs: {
+    OPS: Record<string, number>;
+    getDocument(params: {
+      data: Uint8Array;
+      nativeImageDecoderSupport?: 'decode' | 'display' | 'none';
+      disableFontFace?: boolean;
+    }): PromiseLike<PDFDocumentProxy>;
+  };
+
+  export default pdfjs;
+}
@@ -0,0 +1,97 @@
+const k1 = 1.2;
+const b = 0.75;
+
+/* Keeps identifiers like ERR_CONNECTION_REFUSED, 0x80070005 or node.js intact, and adds their parts so partial matches still count */
+export const tokenize = (text: string) => {
+  const tokens: string[] = [];
+
+  text
+    .toLowerCase()
+    .split(/\s+/)
+    .forEach((word) => {
+      const token = word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+      if (token.length === 0) return;
+
+      tokens.push(token);
+
+      const parts = token.split(/[^\p{L}\p{N}]+/u).filter((p) => p.length > 0);
+
+      if (parts.length > 1) {
+        tokens.push(...parts);
+      }
+    });
+
+  return tokens;
+};
+
+/* coverage is the share of the query's IDF weight that appears in each document, so matching only common words scores low */
+const computeBM25Scores = (
+  query: string,
+  documents: string[],
+): { scores: number[]; coverage: number[] } => {
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  const docTokens = documents.map((doc) => tokenize(doc));
+
+  if (queryTokens.length === 0 || documents.length === 0) {
+    return {
+      scores: documents.map(() => 0),
+      coverage: documents.map(() => 0),
+    };
+  }
+
+  const avgDocLength =
+    docTokens.reduce((sum, tokens) => sum + tokens.length, 0) /
+      documents.length || 1;
+
+  const termFrequencies = docTokens.map((tokens) => {
+    const frequencies = new Map<string, number>();
+    tokens.forEach((token) =>
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1),
+    );
+    return frequencies;
+  });
+
+  const idf = new Map<string, number>();
+
+  queryTokens.forEach((token) => {
+    const docFrequency = termFrequencies.filter((frequencies) =>
+      frequencies.has(token),
+    ).length;
+
+    idf.set(
+      token,
+      Math.log(
+        1 + (documents.length - docFrequency + 0.5) / (docFrequency + 0.5),
+      ),
+    );
+  });
+
+  const totalIdf = queryTokens.reduce((sum, token) => sum + idf.get(token)!, 0);
+
+  const scores = termFrequencies.map((frequencies, i) =>
+    queryTokens.reduce((score, token) => {
+      const tf = frequencies.get(token) ?? 0;
+
+      if (tf === 0) return score;
+
+      return (
+        score +
+        (idf.get(token)! * tf * (k1 + 1)) /
+          (tf + k1 * (1 - b + (b * docTokens[i].length) / avgDocLength))
+      );
+    }, 0),
+  );
+
+  const coverage = termFrequencies.map((frequencies) =>
+    totalIdf > 0
+      ? queryTokens
+          .filter((token) => frequencies.has(token))
+          .reduce((sum, token) => sum + idf.get(token)!, 0) / totalIdf
+      : 0,
+  );
+
+  return { scores, coverage };
+};
+
+export default computeBM25Scores;
@@ -1,12 +1,61 @@
-import axios from 'axios';
-import { htmlToText } from 'html-to-text';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
 import { Document } from '@langchain/core/documents';
 import pdfParse from 'pdf-parse';
+import type { Embeddings } from '@langchain/core/embeddings';
 import logger from './logger';
+import { getChunkingOptions, splitText } from '../lib/chunking';
+import { FetchError, safeFetch } from '../lib/safeFetch';
+import { normalizeUrl, pageCache } from '../lib/cache';
+import { decodeBody, extractWebPage, normalizeText, WebPage } from './webPage';
 
-export const getDocumentsFromLinks = async ({ links }: { links: string[] }) => {
-  const splitter = new RecursiveCharacterTextSplitter();
+const htmlContentTypes = ['text/html', 'application/xhtml+xml'];
+const textContentTypes = ['text/plain', 'text/markdown', 'application/json'];
+
+const fetchWebPage = async (link: string): Promise<WebPage> => {
+  const res = await safeFetch(link, {
+    accept:
+      'text/html,application/xhtml+xml,application/pdf,text/plain;q=0.9,*/*;q=0.8',
+  });
+
+  const { data, contentType } = res;
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+  if (
+    mimeType === 'application/pdf' ||
+    data.subarray(0, 5).toString('latin1') === '%PDF-'
+  ) {
+    const pdf = await pdfParse(data);
+
+    return {
+      title: pdf.info?.Title || 'PDF Document',
+      text: normalizeText(pdf.text),
+      ...(pdf.info?.Author && { author: pdf.info.Author }),
+    };
+  }
+
+  if (textContentTypes.includes(mimeType)) {
+    return { text: normalizeText(decodeBody(data, contentType)) };
+  }
+
+  if (mimeType && !htmlContentTypes.includes(mimeType)) {
+    throw new FetchError(
+      `Unsupported content type ${mimeType}`,
+      'UNSUPPORTED_CONTENT_TYPE',
+      link,
+    );
+  }
+
+  /* Relative links in the page are resolved against the URL we were redirected to */
+  return extractWebPage(decodeBody(data, contentType), res.url);
+};
+
+export const getDocumentsFromLinks = async ({
+  links,
+  embeddings,
+}: {
+  links: string[];
+  embeddings?: Embeddings;
+}) => {
+  const chunking = getChunkingOptions('webPages');
 
   let docs: Document[] = [];
 
@@ -18,61 +67,24 @@ export const getDocumentsFromLinks = async ({ links }: { links: string[] }) => {
           : `https://${link}`;
 
       try {
-        const res = await axios.get(link, {
-          responseType: 'arraybuffer',
-        });
+        const { text, title, ...pageMetadata } = await pageCache.getOrSet(
+          normalizeUrl(link),
+          () => fetchWebPage(link),
+        );
 
-        const isPdf = res.headers['content-type'] === 'application/pdf';
-
-        if (isPdf) {
-          const pdfText = await pdfParse(res.data);
-          const parsedText = pdfText.text
-            .replace(/(\r\n|\n|\r)/gm, ' ')
-            .replace(/\s+/g, ' ')
-            .trim();
-
-          const splittedText = await splitter.splitText(parsedText);
-          const title = 'PDF Document';
-
-          const linkDocs = splittedText.map((text) => {
-            return new Document({
-              pageContent: text,
-              metadata: {
-                title: title,
-                url: link,
-              },
-            });
-          });
+        const splittedText = await splitText(text, chunking, {
+          embeddings,
+        });
 
-          docs.push(...linkDocs);
-          return;
-        }
-
-        const parsedText = htmlToText(res.data.toString('utf8'), {
-          selectors: [
-            {
-              selector: 'a',
-              options: {
-                ignoreHref: true,
-              },
-            },
-          ],
-        })
-          .replace(/(\r\n|\n|\r)/gm, ' ')
-          .replace(/\s+/g, ' ')
-          .trim();
-
-        const splittedText = await splitter.splitText(parsedText);
-        const title = res.data
-          .toString('utf8')
-          .match(/<title>(.*?)<\/title>/)?.[1];
-
-        const linkDocs = splittedText.map((text) => {
+        const linkDocs = splittedText.map((chunk) => {
           return new Document({
-            pageContent: text,
+            pageContent: chunk,
             metadata: {
               title: title || link,
               url: link,
+              ...Object.fromEntries(
+                Object.entries(pageMetadata).filter(([, value]) => value),
+              ),
             },
           });
         });
@@ -1,12 +1,78 @@
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
+import multer from 'multer';
+import { eq } from 'drizzle-orm';
+import { Embeddings } from '@langchain/core/embeddings';
+import express from 'express';
+import {
+  FileSection,
+  getFileExtension,
+  isImageFile,
+  isSupportedFile,
+  loadFile,
+  supportedExtensions,
+} from '../lib/loaders';
+import {
+  addFileChunks,
+  deleteFileChunks,
+  getFileChunkStats,
+} from '../lib/vectorStore';
+import { ChunkingOptions, splitText } from '../lib/chunking';
+import db from '../db';
+import { chats, collectionFiles } from '../db/schema';
+import { getOcrMinConfidence, isOcrEnabled } from '../config';
+
+const uploadsDir = path.join(process.cwd(), './uploads');
+
+const embeddingBatchSize = 32;
+
+const unsupportedFileTypeMessage = 'File type is not supported';
+
+const ocrDisabledMessage =
+  'Images can only be uploaded when OCR is turned on in the config';
+
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    cb(null, uploadsDir);
+  },
+  filename: (req, file, cb) => {
+    if (!isSupportedFile(file.originalname)) {
+      return cb(new Error(unsupportedFileTypeMessage), '');
+    }
+    if (isImageFile(file.originalname) && !isOcrEnabled()) {
+      return cb(new Error(ocrDisabledMessage), '');
+    }
+    cb(
+      null,
+      `${crypto.randomBytes(16).toString('hex')}.${getFileExtension(file.originalname)}`,
+    );
+  },
+});
+
+export const upload = multer({ storage });
+
+export const handleUploadError = (
+  err: Error,
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction,
+) => {
+  if (err.message === unsupportedFileTypeMessage) {
+    return res.status(415).json({
+      message: `${unsupportedFileTypeMessage}, supported file types are: ${supportedExtensions.join(', ')}`,
+    });
+  }
+
+  if (err.message === ocrDisabledMessage) {
+    return res.status(415).json({ message: ocrDisabledMessage });
+  }
+
+  next(err);
+};
 
 export const getFileDetails = (fileId: string) => {
-  const fileLoc = path.join(
-    process.cwd(),
-    './uploads',
-    fileId + '-extracted.json',
-  );
+  const fileLoc = path.join(uploadsDir, fileId + '-extracted.json');
 
   const parsedFile = JSON.parse(fs.readFileSync(fileLoc, 'utf8'));
 
@@ -15,3 +81,323 @@ export const getFileDetails = (fileId: string) => {
     fileId: fileId,
   };
 };
+
+export const getUploadedFileId = (file: Express.Multer.File) =>
+  file.filename.replace(/\.\w+$/, '');
+
+/* Offsets of a chunk in its section, so citations can highlight the exact passage */
+const locateChunk = (text: string, chunk: string, fromIndex: number) => {
+  let start = text.indexOf(chunk, fromIndex);
+
+  if (start === -1) {
+    start = text.indexOf(chunk, 0);
+  }
+
+  return start === -1 ? null : { start, end: start + chunk.length };
+};
+
+const formatPages = (pages: number[]) =>
+  `page${pages.length > 1 ? 's' : ''} ${pages.join(', ')}`;
+
+const getMissingTextWarning = (sections: FileSection[]) => {
+  const pages = sections
+    .filter((section) => section.missingText)
+    .map((section) => section.page);
+
+  if (pages.length === 0) {
+    return undefined;
+  }
+
+  const location = pages[0] ? formatPages(pages) : 'the image';
+
+  return isOcrEnabled()
+    ? `No text could be recognized on ${location}`
+    : `OCR is turned off, so the scanned text on ${location} was not read`;
+};
+
+const getOcrWarning = (sections: FileSection[]) => {
+  const minConfidence = getOcrMinConfidence();
+
+  const lowConfidenceSections = sections.filter(
+    (section) =>
+      section.ocrConfidence !== undefined &&
+      section.ocrConfidence < minConfidence,
+  );
+
+  if (lowConfidenceSections.length === 0) {
+    return undefined;
+  }
+
+  const confidence = Math.round(
+    Math.min(...lowConfidenceSections.map((section) => section.ocrConfidence)),
+  );
+  const pages = lowConfidenceSections
+    .filter((section) => section.page)
+    .map((section) => section.page);
+
+  return `The text was recognized with low confidence (${confidence}%)${pages.length > 0 ? ` on ${formatPages(pages)}` : ''}, some of it may be wrong`;
+};
+
+const getExtractionWarning = (sections: FileSection[]) => {
+  const warnings = [
+    getMissingTextWarning(sections),
+    getOcrWarning(sections),
+  ].filter(Boolean);
+
+  return warnings.length > 0 ? warnings.join('. ') : undefined;
+};
+
+export const processUploadedFile = async (
+  file: Express.Multer.File,
+  embeddingsModel: Embeddings,
+  embeddingModelName: string,
+  chunking: ChunkingOptions,
+  onProgress?: (status: 'extracting' | 'embedding', progress: number) => void,
+) => {
+  onProgress?.('extracting', 0);
+
+  const loadedSections = await loadFile(file);
+  const sections = loadedSections.filter((section) => section.text.length > 0);
+
+  const chunks: { content: string; metadata: Record<string, any> }[] = [];
+
+  for (const [sectionIndex, section] of sections.entries()) {
+    const sectionChunks = await splitText(section.text, chunking, {
+      language: section.language,
+      embeddings: embeddingsModel,
+    });
+    let cursor = 0;
+
+    sectionChunks.forEach((chunk) => {
+      const location = locateChunk(section.text, chunk, cursor);
+
+      if (location) {
+        cursor = location.start + 1;
+      }
+
+      chunks.push({
+        content: chunk,
+        metadata: {
+          section: sectionIndex,
+          ...(section.page && { page: section.page }),
+          ...(section.headings && { headings: section.headings }),
+          ...location,
+        },
+      });
+    });
+  }
+
+  const json = JSON.stringify({
+    title: file.originalname,
+    contents: chunks.map((chunk) => chunk.content),
+    metadata: chunks.map((chunk) => chunk.metadata),
+    sections,
+  });
+
+  const pathToSave = file.path.replace(/\.\w+$/, '-extracted.json');
+  fs.writeFileSync(pathToSave, json);
+
+  /* Chunks are embedded in batches so progress can be reported for large files */
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < chunks.length; i += embeddingBatchSize) {
+    onProgress?.('embedding', i / chunks.length);
+
+    embeddings.push(
+      ...(await embeddingsModel.embedDocuments(
+        chunks.slice(i, i + embeddingBatchSize).map((chunk) => chunk.content),
+      )),
+    );
+  }
+
+  await addFileChunks(
+    getUploadedFileId(file),
+    chunks.map((chunk) => ({
+      content: chunk.content,
+      metadata: {
+        title: file.originalname,
+        ...chunk.metadata,
+      },
+    })),
+    embeddings,
+    embeddingModelName,
+  );
+
+  return {
+    chunkCount: chunks.length,
+    warning: getExtractionWarning(loadedSections),
+  };
+};
+
+export const getExtractedFile = (fileId: string) => {
+  const fileLoc = path.join(uploadsDir, fileId + '-extracted.json');
+
+  if (!fs.existsSync(fileLoc)) {
+    return null;
+  }
+
+  const parsedFile = JSON.parse(fs.readFileSync(fileLoc, 'utf8'));
+
+  return {
+    title: parsedFile.title as string,
+    /* Files uploaded before sections were stored only have their chunks */
+    sections: (parsedFile.sections ??
+      parsedFile.contents.map((content: string, i: number) => ({
+        text: content,
+        ...(parsedFile.metadata?.[i]?.page && {
+          page: parsedFile.metadata[i].page,
+        }),
+      }))) as FileSection[],
+  };
+};
+
+/* The stored file name of each uploaded file, read from the uploads directory at once */
+export const getUploadedFileNames = () =>
+  new Map(
+    fs
+      .readdirSync(uploadsDir)
+      .filter((fileName) => /^[a-f0-9]+\.\w+$/.test(fileName))
+      .map((fileName) => [fileName.replace(/\.\w+$/, ''), fileName]),
+  );
+
+export const getUploadedFilePath = (
+  fileId: string,
+  fileNames = getUploadedFileNames(),
+) => {
+  const fileName = fileNames.get(fileId);
+
+  return fileName ? path.join(uploadsDir, fileName) : null;
+};
+
+export const deleteUploadedFile = async (fileId: string) => {
+  await deleteFileChunks(fileId);
+
+  fs.readdirSync(uploadsDir)
+    .filter(
+      (fileName) =>
+        fileName.startsWith(`${fileId}.`) || fileName.startsWith(`${fileId}-`),
+    )
+    .forEach((fileName) => fs.unlinkSync(path.join(uploadsDir, fileName)));
+};
+
+export const getUploadedFileIds = () => [...getUploadedFileNames().keys()];
+
+const getChatFiles = (chat: { [key: string]: unknown }) =>
+  (chat.files ?? []) as { name: string; fileId: string }[];
+
+/* The chats and collections that use each file */
+export const getFileReferences = async () => {
+  const allChats = await db.query.chats.findMany();
+  const allCollectionFiles = await db.query.collectionFiles.findMany();
+
+  const references = new Map<
+    string,
+    { chats: string[]; collections: string[] }
+  >();
+
+  const getReference = (fileId: string) => {
+    if (!references.has(fileId)) {
+      references.set(fileId, { chats: [], collections: [] });
+    }
+
+    return references.get(fileId)!;
+  };
+
+  allChats.forEach((chat) =>
+    getChatFiles(chat).forEach((file) =>
+      getReference(file.fileId).chats.push(chat.id as string),
+    ),
+  );
+
+  allCollectionFiles.forEach((file) =>
+    getReference(file.fileId as string).collections.push(
+      file.collectionId as string,
+    ),
+  );
+
+  return references;
+};
+
+/* Files that were deleted in the meantime are left out */
+export const listUploadedFiles = async (fileIds = getUploadedFileIds()) => {
+  const chunkStats = await getFileChunkStats();
+  const references = await getFileReferences();
+  const fileNames = getUploadedFileNames();
+
+  return fileIds.flatMap((fileId) => {
+    const filePath = getUploadedFilePath(fileId, fileNames);
+
+    if (!filePath) return [];
+
+    const stats = fs.statSync(filePath);
+    const extractedFile = getExtractedFile(fileId);
+
+    return [
+      {
+        fileId,
+        name: extractedFile?.title ?? path.basename(filePath),
+        extension: path.extname(filePath).slice(1),
+        size: stats.size,
+        createdAt: stats.birthtime.toString(),
+        chunkCount: chunkStats.get(fileId)?.chunkCount ?? 0,
+        embeddingModel: chunkStats.get(fileId)?.embeddingModel ?? null,
+        chats: references.get(fileId)?.chats ?? [],
+        collections: references.get(fileId)?.collections ?? [],
+      },
+    ];
+  });
+};
+
+/* Removes the file together with every reference to it, so no chat or collection points to a missing file */
+export const deleteUploadedFileEverywhere = async (fileId: string) => {
+  await deleteUploadedFile(fileId);
+
+  await db
+    .delete(collectionFiles)
+    .where(eq(collectionFiles.fileId, fileId))
+    .execute();
+
+  const chatsWithFile = (await db.query.chats.findMany()).filter((chat) =>
+    getChatFiles(chat).some((file) => file.fileId === fileId),
+  );
+
+  await Promise.all(
+    chatsWithFile.map((chat) =>
+      db
+        .update(chats)
+        .set({
+          files: getChatFiles(chat).filter((file) => file.fileId !== fileId),
+        })
+        .where(eq(chats.id, chat.id as string))
+        .execute(),
+    ),
+  );
+};
+
+/* Deletes the given files, or all uploaded files, that no chat or collection uses */
+export const deleteUnreferencedFiles = async (
+  fileIds = getUploadedFileIds(),
+  minAge = 0,
+) => {
+  const references = await getFileReferences();
+  const fileNames = getUploadedFileNames();
+
+  const unreferencedFileIds = fileIds.filter((fileId) => {
+    const filePath = getUploadedFilePath(fileId, fileNames);
+
+    if (!filePath) return false;
+
+    const reference = references.get(fileId);
+    const age = Date.now() - fs.statSync(filePath).mtime.getTime();
+
+    return (
+      (!reference ||
+        (reference.chats.length === 0 && reference.collections.length === 0)) &&
+      age >= minAge
+    );
+  });
+
+  await Promise.all(unreferencedFileIds.map(deleteUploadedFile));
+
+  return unreferencedFileIds;
+};
@@ -0,0 +1,99 @@
+import computeBM25Scores from './bm25';
+import { getHybridRerankingMode, getKeywordWeight, getRrfK } from '../config';
+
+export interface HybridRankCandidate<T> {
+  item: T;
+  content: string;
+  similarity: number;
+}
+
+export interface HybridRankResult<T> extends HybridRankCandidate<T> {
+  keywordScore: number;
+  score: number;
+}
+
+/* Documents below the similarity threshold are still kept when they contain most of the query's distinctive terms */
+const strongKeywordCoverage = 0.75;
+
+const getRanks = (scores: number[]) => {
+  const ranks = new Array<number>(scores.length);
+
+  scores
+    .map((score, index) => ({ score, index }))
+    .sort((a, b) => b.score - a.score)
+    .forEach((entry, rank) => (ranks[entry.index] = rank + 1));
+
+  return ranks;
+};
+
+const hybridRank = <T>(
+  query: string,
+  candidates: HybridRankCandidate<T>[],
+  threshold: number,
+): HybridRankResult<T>[] => {
+  const mode = getHybridRerankingMode();
+
+  if (mode === 'none') {
+    return candidates
+      .filter((candidate) => candidate.similarity > threshold)
+      .map((candidate) => ({
+        ...candidate,
+        keywordScore: 0,
+        score: candidate.similarity,
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  const { scores: bm25Scores, coverage } = computeBM25Scores(
+    query,
+    candidates.map((candidate) => candidate.content),
+  );
+
+  const maxBM25Score = bm25Scores.reduce(
+    (max, score) => Math.max(max, score),
+    0,
+  );
+  const keywordScores = bm25Scores.map((score) =>
+    maxBM25Score > 0 ? score / maxBM25Score : 0,
+  );
+
+  let scores: number[];
+
+  if (mode === 'rrf') {
+    const k = getRrfK();
+    const similarityRanks = getRanks(
+      candidates.map((candidate) => candidate.similarity),
+    );
+    const keywordRanks = getRanks(keywordScores);
+
+    scores = candidates.map(
+      (_, i) =>
+        1 / (k + similarityRanks[i]) +
+        (keywordScores[i] > 0 ? 1 / (k + keywordRanks[i]) : 0),
+    );
+  } else if (mode === 'weighted') {
+    const keywordWeight = getKeywordWeight();
+
+    scores = candidates.map(
+      (candidate, i) =>
+        (1 - keywordWeight) * candidate.similarity +
+        keywordWeight * keywordScores[i],
+    );
+  } else {
+    throw new Error(`Invalid hybrid reranking mode: ${mode}`);
+  }
+
+  return candidates
+    .map((candidate, i) => ({
+      ...candidate,
+      keywordScore: keywordScores[i],
+      score: scores[i],
+    }))
+    .filter(
+      (result, i) =>
+        result.similarity > threshold || coverage[i] >= strongKeywordCoverage,
+    )
+    .sort((a, b) => b.score - a.score);
+};
+
+export default hybridRank;
@@ -0,0 +1,165 @@
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { Readability } from '@mozilla/readability';
+import { htmlToText } from 'html-to-text';
+import iconv from 'iconv-lite';
+
+export interface WebPage {
+  title?: string;
+  text: string;
+  author?: string;
+  publishedDate?: string;
+  canonicalUrl?: string;
+  description?: string;
+  siteName?: string;
+  language?: string;
+}
+
+/* Elements that are never part of the main content, used when readability finds no article */
+const boilerplateSelector =
+  'script, style, noscript, template, svg, nav, header, footer, aside, form, [role="navigation"], [role="banner"], [role="contentinfo"], [aria-hidden="true"]';
+
+const getCharset = (data: Buffer, contentType?: string) => {
+  const headerCharset = contentType?.match(/charset=["']?([\w-]+)/i)?.[1];
+
+  if (headerCharset) {
+    return headerCharset;
+  }
+
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) {
+    return 'utf-8';
+  }
+
+  /* The meta tag has to be within the first 1024 bytes of the page */
+  const head = data.subarray(0, 1024).toString('latin1');
+
+  return (
+    head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] ??
+    head.match(/<meta[^>]+content=["'][^"']*charset=([\w-]+)/i)?.[1] ??
+    'utf-8'
+  );
+};
+
+export const decodeBody = (data: Buffer, contentType?: string) => {
+  const charset = getCharset(data, contentType);
+
+  return iconv.decode(data, iconv.encodingExists(charset) ? charset : 'utf-8');
+};
+
+export const normalizeText = (text: string) =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const getMetaContent = (document: Document, selectors: string[]) => {
+  for (const selector of selectors) {
+    const content = document
+      .querySelector(selector)
+      ?.getAttribute(selector.startsWith('time') ? 'datetime' : 'content')
+      ?.trim();
+
+    if (content) {
+      return content;
+    }
+  }
+};
+
+const getCanonicalUrl = (document: Document, url: string) => {
+  const href =
+    document.querySelector('link[rel="canonical"]')?.getAttribute('href') ??
+    document.querySelector('meta[property="og:url"]')?.getAttribute('content');
+
+  if (!href) return;
+
+  try {
+    return new URL(href, url).toString();
+  } catch {
+    return;
+  }
+};
+
+const htmlToPlainText = (html: string) =>
+  normalizeText(
+    htmlToText(html, {
+      wordwrap: false,
+      selectors: [
+        { selector: 'a', options: { ignoreHref: true } },
+        { selector: 'img', format: 'skip' },
+        { selector: 'h1', options: { uppercase: false } },
+        { selector: 'h2', options: { uppercase: false } },
+        { selector: 'h3', options: { uppercase: false } },
+        { selector: 'h4', options: { uppercase: false } },
+        { selector: 'h5', options: { uppercase: false } },
+        { selector: 'h6', options: { uppercase: false } },
+        { selector: 'table', format: 'dataTable' },
+      ],
+    }),
+  );
+
+/* Extracts the main content of a page, leaving out navigation, banners and footers */
+export const extractWebPage = (html: string, url: string): WebPage => {
+  const dom = new JSDOM(html, { url, virtualConsole: new VirtualConsole() });
+  const document = dom.window.document;
+
+  const metadata = {
+    title:
+      getMetaContent(document, ['meta[property="og:title"]']) ??
+      (document.title.trim() || undefined),
+    author: getMetaContent(document, [
+      'meta[name="author"]',
+      'meta[property="article:author"]',
+      'meta[name="twitter:creator"]',
+    ]),
+    publishedDate: getMetaContent(document, [
+      'meta[property="article:published_time"]',
+      'meta[name="date"]',
+      'meta[name="pubdate"]',
+      'meta[itemprop="datePublished"]',
+      'time[datetime]',
+    ]),
+    canonicalUrl: getCanonicalUrl(document, url),
+    description: getMetaContent(document, [
+      'meta[name="description"]',
+      'meta[property="og:description"]',
+    ]),
+    siteName: getMetaContent(document, ['meta[property="og:site_name"]']),
+    language: document.documentElement.lang || undefined,
+  };
+
+  /* Readability changes the document, so it runs after the metadata is read */
+  const article = new Readability(document).parse();
+
+  if (article && article.textContent.trim().length > 0) {
+    dom.window.close();
+
+    return {
+      ...metadata,
+      title: article.title || metadata.title,
+      text: htmlToPlainText(article.content),
+      author: metadata.author ?? (article.byline || undefined),
+      publishedDate:
+        metadata.publishedDate ?? (article.publishedTime || undefined),
+      siteName: metadata.siteName ?? (article.siteName || undefined),
+      language: metadata.language ?? (article.lang || undefined),
+    };
+  }
+
+  const fallbackDom = new JSDOM(html, {
+    url,
+    virtualConsole: new VirtualConsole(),
+  });
+  const body = fallbackDom.window.document.body;
+
+  body
+    ?.querySelectorAll(boilerplateSelector)
+    .forEach((element) => element.remove());
+
+  const text = htmlToPlainText(body?.innerHTML ?? '');
+
+  dom.window.close();
+  fallbackDom.window.close();
+
+  return { ...metadata, text };
+};
@@ -4,13 +4,18 @@ import type { BaseChatModel } from '@langchain/core/language_models/chat_models'
 import type { Embeddings } from '@langchain/core/embeddings';
 import logger from '../utils/logger';
 import db from '../db';
-import { chats, messages as messagesSchema } from '../db/schema';
-import { eq, asc, gt } from 'drizzle-orm';
+import {
+  chats,
+  collectionFiles,
+  messages as messagesSchema,
+} from '../db/schema';
+import { eq, asc, gt, inArray } from 'drizzle-orm';
 import crypto from 'crypto';
 import { getFileDetails } from '../utils/files';
 import MetaSearchAgent, {
   MetaSearchAgentType,
 } from '../search/metaSearchAgent';
+import DeepResearchAgent from '../search/deepResearchAgent';
 import prompts from '../prompts';
 
 type Message = {
@@ -26,10 +31,12 @@ type WSMessage = {
   focusMode: string;
   history: Array<[string, string]>;
   files: Array<string>;
+  collections?: Array<string>;
 };
 
 export const searchHandlers = {
   webSearch: new MetaSearchAgent({
+    focusMode: 'webSearch',
     activeEngines: [],
     queryGeneratorPrompt: prompts.webSearchRetrieverPrompt,
     responsePrompt: prompts.webSearchResponsePrompt,
@@ -39,6 +46,7 @@ export const searchHandlers = {
     summarizer: true,
   }),
   academicSearch: new MetaSearchAgent({
+    focusMode: 'academicSearch',
     activeEngines: ['arxiv', 'google scholar', 'pubmed'],
     queryGeneratorPrompt: prompts.academicSearchRetrieverPrompt,
     responsePrompt: prompts.academicSearchResponsePrompt,
@@ -46,8 +54,10 @@ export const searchHandlers = {
     rerankThreshold: 0,
     searchWeb: true,
     summarizer: false,
+    papers: true,
   }),
   writingAssistant: new MetaSearchAgent({
+    focusMode: 'writingAssistant',
     activeEngines: [],
     queryGeneratorPrompt: '',
     responsePrompt: prompts.writingAssistantPrompt,
@@ -57,6 +67,7 @@ export const searchHandlers = {
     summarizer: false,
   }),
   wolframAlphaSearch: new MetaSearchAgent({
+    focusMode: 'wolframAlphaSearch',
     activeEngines: ['wolframalpha'],
     queryGeneratorPrompt: prompts.wolframAlphaSearchRetrieverPrompt,
     responsePrompt: prompts.wolframAlphaSearchResponsePrompt,
@@ -66,6 +77,7 @@ export const searchHandlers = {
     summarizer: false,
   }),
   youtubeSearch: new MetaSearchAgent({
+    focusMode: 'youtubeSearch',
     activeEngines: ['youtube'],
     queryGeneratorPrompt: prompts.youtubeSearchRetrieverPrompt,
     responsePrompt: prompts.youtubeSearchResponsePrompt,
@@ -73,8 +85,10 @@ export const searchHandlers = {
     rerankThreshold: 0.3,
     searchWeb: true,
     summarizer: false,
+    transcripts: true,
   }),
   redditSearch: new MetaSearchAgent({
+    focusMode: 'redditSearch',
     activeEngines: ['reddit'],
     queryGeneratorPrompt: prompts.redditSearchRetrieverPrompt,
     responsePrompt: prompts.redditSearchResponsePrompt,
@@ -82,6 +96,28 @@ export const searchHandlers = {
     rerankThreshold: 0.3,
     searchWeb: true,
     summarizer: false,
+    redditThreads: true,
+  }),
+  collectionSearch: new MetaSearchAgent({
+    focusMode: 'collectionSearch',
+    activeEngines: [],
+    queryGeneratorPrompt: '',
+    responsePrompt: prompts.collectionSearchPrompt,
+    rerank: true,
+    rerankThreshold: 0,
+    searchWeb: false,
+    summarizer: false,
+  }),
+  deepResearch: new DeepResearchAgent({
+    focusMode: 'deepResearch',
+    activeEngines: [],
+    plannerPrompt: prompts.deepResearchPlannerPrompt,
+    gapPrompt: prompts.deepResearchGapPrompt,
+    responsePrompt: prompts.deepResearchResponsePrompt,
+    maxIterations: 3,
+    pagesPerQuery: 4,
+    passagesPerQuery: 3,
+    maxSources: 30,
   }),
 };
 
@@ -114,6 +150,14 @@ const handleEmitterEvents = (
         }),
       );
       sources = parsedData.data;
+    } else if (['step', 'plan', 'progress'].includes(parsedData.type)) {
+      ws.send(
+        JSON.stringify({
+          type: parsedData.type,
+          data: parsedData.data,
+          messageId: messageId,
+        }),
+      );
     }
   });
   emitter.on('end', () => {
@@ -154,9 +198,26 @@ export const handleMessage = async (
     const parsedWSMessage = JSON.parse(message) as WSMessage;
     const parsedMessage = parsedWSMessage.message;
 
-    if (parsedWSMessage.files.length > 0) {
-      /* TODO: Implement uploads in other classes/single meta class system*/
-      parsedWSMessage.focusMode = 'webSearch';
+    let fileIds = parsedWSMessage.files;
+
+    if (parsedWSMessage.focusMode === 'collectionSearch') {
+      const collectionIds = parsedWSMessage.collections ?? [];
+
+      if (collectionIds.length === 0) {
+        return ws.send(
+          JSON.stringify({
+            type: 'error',
+            data: 'Please select at least one collection',
+            key: 'NO_COLLECTIONS_SELECTED',
+          }),
+        );
+      }
+
+      const files = await db.query.collectionFiles.findMany({
+        where: inArray(collectionFiles.collectionId, collectionIds),
+      });
+
+      fileIds = [...fileIds, ...files.map((file) => file.fileId)];
     }
 
     const humanMessageId =
@@ -196,7 +257,7 @@ export const handleMessage = async (
             llm,
             embeddings,
             parsedWSMessage.optimizationMode,
-            parsedWSMessage.files,
+            fileIds,
           );
 
           handleEmitterEvents(emitter, ws, aiMessageId, parsedMessage.chatId);
@@ -214,6 +275,7 @@ export const handleMessage = async (
                 createdAt: new Date().toString(),
                 focusMode: parsedWSMessage.focusMode,
                 files: parsedWSMessage.files.map(getFileDetails),
+                collections: parsedWSMessage.collections ?? [],
               })
               .execute();
           }
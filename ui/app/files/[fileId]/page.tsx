@@ -0,0 +1,20 @@
+import FileViewer from '@/components/FileViewer';
+
+const Page = ({
+  params,
+  searchParams,
+}: {
+  params: { fileId: string };
+  searchParams: { section?: string; start?: string; end?: string };
+}) => {
+  return (
+    <FileViewer
+      fileId={params.fileId}
+      section={searchParams.section ? Number(searchParams.section) : undefined}
+      start={searchParams.start ? Number(searchParams.start) : undefined}
+      end={searchParams.end ? Number(searchParams.end) : undefined}
+    />
+  );
+};
+
+export default Page;
@@ -2,15 +2,21 @@
 
 import { Fragment, useEffect, useRef, useState } from 'react';
 import MessageInput from './MessageInput';
-import { File, Message } from './ChatWindow';
+import {
+  File,
+  Message,
+  ResearchProgress as ResearchProgressType,
+} from './ChatWindow';
 import MessageBox from './MessageBox';
 import MessageBoxLoading from './MessageBoxLoading';
+import ResearchProgress from './ResearchProgress';
 
 const Chat = ({
   loading,
   messages,
   sendMessage,
   messageAppeared,
+  researchProgress,
   rewrite,
   fileIds,
   setFileIds,
@@ -21,6 +27,7 @@ const Chat = ({
   sendMessage: (message: string) => void;
   loading: boolean;
   messageAppeared: boolean;
+  researchProgress: ResearchProgressType | null;
   rewrite: (messageId: string) => void;
   fileIds: string[];
   setFileIds: (fileIds: string[]) => void;
@@ -79,7 +86,13 @@ const Chat = ({
           </Fragment>
         );
       })}
-      {loading && !messageAppeared && <MessageBoxLoading />}
+      {loading &&
+        !messageAppeared &&
+        (researchProgress ? (
+          <ResearchProgress researchProgress={researchProgress} />
+        ) : (
+          <MessageBoxLoading />
+        ))}
       <div ref={messageEnd} className="h-0" />
       {dividerWidth > 0 && (
         <div
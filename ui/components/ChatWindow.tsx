@@ -21,6 +21,18 @@ export type Message = {
   sources?: Document[];
 };
 
+export type ResearchProgress = {
+  plan: string[];
+  steps: string[];
+  progress?: {
+    iteration: number;
+    maxIterations: number;
+    completed: number;
+    total: number;
+    sources: number;
+  };
+};
+
 export interface File {
   fileName: string;
   fileExtension: string;
@@ -225,6 +237,7 @@ const loadMessages = async (
   setNotFound: (notFound: boolean) => void,
   setFiles: (files: File[]) => void,
   setFileIds: (fileIds: string[]) => void,
+  setCollectionIds: (collectionIds: string[]) => void,
 ) => {
   const res = await fetch(
     `${process.env.NEXT_PUBLIC_API_URL}/chats/${chatId}`,
@@ -271,6 +284,7 @@ const loadMessages = async (
 
   setFiles(files);
   setFileIds(files.map((file: File) => file.fileId));
+  setCollectionIds(data.chat.collections ?? []);
 
   setChatHistory(history);
   setFocusMode(data.chat.focusMode);
@@ -296,12 +310,15 @@ const ChatWindow = ({ id }: { id?: string }) => {
 
   const [loading, setLoading] = useState(false);
   const [messageAppeared, setMessageAppeared] = useState(false);
+  const [researchProgress, setResearchProgress] =
+    useState<ResearchProgress | null>(null);
 
   const [chatHistory, setChatHistory] = useState<[string, string][]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
 
   const [files, setFiles] = useState<File[]>([]);
   const [fileIds, setFileIds] = useState<string[]>([]);
+  const [collectionIds, setCollectionIds] = useState<string[]>([]);
 
   const [focusMode, setFocusMode] = useState('webSearch');
   const [optimizationMode, setOptimizationMode] = useState('speed');
@@ -326,6 +343,7 @@ const ChatWindow = ({ id }: { id?: string }) => {
         setNotFound,
         setFiles,
         setFileIds,
+        setCollectionIds,
       );
     } else if (!chatId) {
       setNewChatCreated(true);
@@ -363,6 +381,7 @@ const ChatWindow = ({ id }: { id?: string }) => {
 
     setLoading(true);
     setMessageAppeared(false);
+    setResearchProgress(null);
 
     let sources: Document[] | undefined = undefined;
     let recievedMessage = '';
@@ -379,6 +398,7 @@ const ChatWindow = ({ id }: { id?: string }) => {
           content: message,
         },
         files: fileIds,
+        collections: collectionIds,
         focusMode: focusMode,
         optimizationMode: optimizationMode,
         history: [...chatHistory, ['human', message]],
@@ -405,6 +425,31 @@ const ChatWindow = ({ id }: { id?: string }) => {
         return;
       }
 
+      if (data.type === 'plan') {
+        setResearchProgress((prev) => ({
+          steps: [],
+          ...prev,
+          plan: data.data,
+        }));
+      }
+
+      if (data.type === 'step') {
+        setResearchProgress((prev) => ({
+          plan: [],
+          ...prev,
+          steps: [...(prev?.steps ?? []), data.data],
+        }));
+      }
+
+      if (data.type === 'progress') {
+        setResearchProgress((prev) => ({
+          plan: [],
+          steps: [],
+          ...prev,
+          progress: data.data,
+        }));
+      }
+
       if (data.type === 'sources') {
         sources = data.data;
         if (!added) {
@@ -535,6 +580,7 @@ const ChatWindow = ({ id }: { id?: string }) => {
               messages={messages}
               sendMessage={sendMessage}
               messageAppeared={messageAppeared}
+              researchProgress={researchProgress}
               rewrite={rewrite}
               fileIds={fileIds}
               setFileIds={setFileIds}
@@ -553,6 +599,8 @@ const ChatWindow = ({ id }: { id?: string }) => {
             setFileIds={setFileIds}
             files={files}
             setFiles={setFiles}
+            collectionIds={collectionIds}
+            setCollectionIds={setCollectionIds}
           />
         )}
       </div>
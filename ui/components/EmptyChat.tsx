@@ -14,6 +14,8 @@ const EmptyChat = ({
   setFileIds,
   files,
   setFiles,
+  collectionIds,
+  setCollectionIds,
 }: {
   sendMessage: (message: string) => void;
   focusMode: string;
@@ -24,6 +26,8 @@ const EmptyChat = ({
   setFileIds: (fileIds: string[]) => void;
   files: File[];
   setFiles: (files: File[]) => void;
+  collectionIds: string[];
+  setCollectionIds: (collectionIds: string[]) => void;
 }) => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
@@ -50,6 +54,8 @@ const EmptyChat = ({
           setFileIds={setFileIds}
           files={files}
           setFiles={setFiles}
+          collectionIds={collectionIds}
+          setCollectionIds={setCollectionIds}
         />
       </div>
     </div>
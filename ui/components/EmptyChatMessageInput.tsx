@@ -5,6 +5,7 @@ import CopilotToggle from './MessageInputActions/Copilot';
 import Focus from './MessageInputActions/Focus';
 import Optimization from './MessageInputActions/Optimization';
 import Attach from './MessageInputActions/Attach';
+import Collections from './MessageInputActions/Collections';
 import { File } from './ChatWindow';
 
 const EmptyChatMessageInput = ({
@@ -17,6 +18,8 @@ const EmptyChatMessageInput = ({
   setFileIds,
   files,
   setFiles,
+  collectionIds,
+  setCollectionIds,
 }: {
   sendMessage: (message: string) => void;
   focusMode: string;
@@ -27,6 +30,8 @@ const EmptyChatMessageInput = ({
   setFileIds: (fileIds: string[]) => void;
   files: File[];
   setFiles: (files: File[]) => void;
+  collectionIds: string[];
+  setCollectionIds: (collectionIds: string[]) => void;
 }) => {
   const [copilotEnabled, setCopilotEnabled] = useState(false);
   const [message, setMessage] = useState('');
@@ -85,6 +90,12 @@ const EmptyChatMessageInput = ({
         <div className="flex flex-row items-center justify-between mt-4">
           <div className="flex flex-row items-center space-x-2 lg:space-x-4">
             <Focus focusMode={focusMode} setFocusMode={setFocusMode} />
+            {focusMode === 'collectionSearch' && (
+              <Collections
+                collectionIds={collectionIds}
+                setCollectionIds={setCollectionIds}
+              />
+            )}
             <Attach
               fileIds={fileIds}
               setFileIds={setFileIds}
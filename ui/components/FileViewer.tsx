@@ -0,0 +1,156 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { ExternalLink, File } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+interface FileSection {
+  text: string;
+  page?: number;
+  headings?: string[];
+}
+
+const FileViewer = ({
+  fileId,
+  section,
+  start,
+  end,
+}: {
+  fileId: string;
+  section?: number;
+  start?: number;
+  end?: number;
+}) => {
+  const [title, setTitle] = useState('');
+  const [sections, setSections] = useState<FileSection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const highlightRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    const fetchSections = async () => {
+      setLoading(true);
+
+      const res = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/uploads/${fileId}/sections`,
+        {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        },
+      );
+
+      if (res.status === 404) {
+        setNotFound(true);
+        setLoading(false);
+        return;
+      }
+
+      const data = await res.json();
+
+      setTitle(data.title);
+      setSections(data.sections);
+      setLoading(false);
+    };
+
+    fetchSections();
+  }, [fileId]);
+
+  useEffect(() => {
+    if (!loading) {
+      highlightRef.current?.scrollIntoView({
+        behavior: 'smooth',
+        block: 'center',
+      });
+    }
+  }, [loading]);
+
+  const renderText = (fileSection: FileSection, index: number) => {
+    if (index !== section) {
+      return fileSection.text;
+    }
+
+    if (start === undefined || end === undefined) {
+      return (
+        <mark
+          ref={highlightRef}
+          className="bg-[#24A0ED]/20 text-black dark:text-white rounded"
+        >
+          {fileSection.text}
+        </mark>
+      );
+    }
+
+    return (
+      <>
+        {fileSection.text.slice(0, start)}
+        <mark
+          ref={highlightRef}
+          className="bg-[#24A0ED]/20 text-black dark:text-white rounded"
+        >
+          {fileSection.text.slice(start, end)}
+        </mark>
+        {fileSection.text.slice(end)}
+      </>
+    );
+  };
+
+  return loading ? (
+    <div className="flex flex-row items-center justify-center min-h-screen">
+      <p className="text-black/70 dark:text-white/70 text-sm">Loading...</p>
+    </div>
+  ) : notFound ? (
+    <div className="flex flex-row items-center justify-center min-h-screen">
+      <p className="text-black/70 dark:text-white/70 text-sm">
+        File not found.
+      </p>
+    </div>
+  ) : (
+    <div>
+      <div className="flex flex-col pt-4">
+        <div className="flex flex-row items-center justify-between">
+          <div className="flex items-center min-w-0">
+            <File className="flex-shrink-0" />
+            <h1 className="text-3xl font-medium p-2 truncate">{title}</h1>
+          </div>
+          <a
+            href={`${process.env.NEXT_PUBLIC_API_URL}/uploads/${fileId}/file`}
+            target="_blank"
+            className="flex flex-row items-center space-x-1 text-black/70 dark:text-white/70 hover:text-[#24A0ED] dark:hover:text-[#24A0ED] transition duration-200 text-sm flex-shrink-0"
+          >
+            <ExternalLink size={15} />
+            <span>Open original</span>
+          </a>
+        </div>
+        <hr className="border-t border-[#2B2C2C] my-4 w-full" />
+      </div>
+      <div className="flex flex-col pb-20 lg:pb-2">
+        {sections.map((fileSection, i) => (
+          <div
+            key={i}
+            className={cn(
+              'flex flex-col space-y-2 py-6',
+              i !== sections.length - 1
+                ? 'border-b border-white-200 dark:border-dark-200'
+                : '',
+            )}
+          >
+            {(fileSection.page || fileSection.headings) && (
+              <p className="text-xs text-black/50 dark:text-white/50 font-medium">
+                {fileSection.page
+                  ? `Page ${fileSection.page}`
+                  : fileSection.headings?.join(' › ')}
+              </p>
+            )}
+            <p className="text-sm text-black/80 dark:text-white/80 whitespace-pre-wrap leading-relaxed">
+              {renderText(fileSection, i)}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FileViewer;
@@ -0,0 +1,77 @@
+import { FileDown } from 'lucide-react';
+import {
+  Popover,
+  PopoverButton,
+  PopoverPanel,
+  Transition,
+} from '@headlessui/react';
+import { Fragment } from 'react';
+import { Document } from '@langchain/core/documents';
+import { downloadFile, toBibTeX, toRIS } from '@/lib/citations';
+
+const exportFormats = [
+  {
+    title: 'BibTeX',
+    description: 'For LaTeX and most reference managers',
+    fileName: 'citations.bib',
+    type: 'application/x-bibtex',
+    format: toBibTeX,
+  },
+  {
+    title: 'RIS',
+    description: 'For Zotero, Mendeley and EndNote',
+    fileName: 'citations.ris',
+    type: 'application/x-research-info-systems',
+    format: toRIS,
+  },
+];
+
+const Export = ({ sources }: { sources: Document[] }) => {
+  return (
+    <Popover className="relative">
+      <PopoverButton
+        type="button"
+        title="Export citations"
+        className="p-2 text-black/70 dark:text-white/70 rounded-xl hover:bg-light-secondary dark:hover:bg-dark-secondary transition duration-200 hover:text-black dark:hover:text-white"
+      >
+        <FileDown size={18} />
+      </PopoverButton>
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-150"
+        enterFrom="opacity-0 translate-y-1"
+        enterTo="opacity-100 translate-y-0"
+        leave="transition ease-in duration-150"
+        leaveFrom="opacity-100 translate-y-0"
+        leaveTo="opacity-0 translate-y-1"
+      >
+        <PopoverPanel className="absolute z-10 w-64 bottom-full mb-2 right-0">
+          <div className="flex flex-col gap-2 bg-light-primary dark:bg-dark-primary border rounded-lg border-light-200 dark:border-dark-200 w-full p-4">
+            {exportFormats.map((exportFormat, i) => (
+              <PopoverButton
+                key={i}
+                onClick={() =>
+                  downloadFile(
+                    exportFormat.format(sources),
+                    exportFormat.fileName,
+                    exportFormat.type,
+                  )
+                }
+                className="p-2 rounded-lg flex flex-col items-start justify-start text-start space-y-1 duration-200 cursor-pointer transition hover:bg-light-secondary dark:hover:bg-dark-secondary"
+              >
+                <p className="text-sm font-medium text-black dark:text-white">
+                  {exportFormat.title}
+                </p>
+                <p className="text-black/70 dark:text-white/70 text-xs">
+                  {exportFormat.description}
+                </p>
+              </PopoverButton>
+            ))}
+          </div>
+        </PopoverPanel>
+      </Transition>
+    </Popover>
+  );
+};
+
+export default Export;
@@ -3,7 +3,7 @@
 /* eslint-disable @next/next/no-img-element */
 import React, { MutableRefObject, useEffect, useState } from 'react';
 import { Message } from './ChatWindow';
-import { cn } from '@/lib/utils';
+import { cn, getSourceUrl } from '@/lib/utils';
 import {
   BookCopy,
   Disc3,
@@ -15,6 +15,8 @@ import {
 import Markdown from 'markdown-to-jsx';
 import Copy from './MessageActions/Copy';
 import Rewrite from './MessageActions/Rewrite';
+import Export from './MessageActions/Export';
+import ResultCard from './ResultCard';
 import MessageSources from './MessageSources';
 import SearchImages from './SearchImages';
 import SearchVideos from './SearchVideos';
@@ -54,7 +56,7 @@ const MessageBox = ({
         message.content.replace(
           regex,
           (_, number) =>
-            `<a href="${message.sources?.[number - 1]?.metadata?.url}" target="_blank" className="bg-light-secondary dark:bg-dark-secondary px-1 rounded ml-1 no-underline text-xs text-black/70 dark:text-white/70 relative">${number}</a>`,
+            `<a href="${message.sources?.[number - 1] ? getSourceUrl(message.sources[number - 1]) : ''}" target="_blank" className="bg-light-secondary dark:bg-dark-secondary px-1 rounded ml-1 no-underline text-xs text-black/70 dark:text-white/70 relative">${number}</a>`,
         ),
       );
     }
@@ -92,6 +94,11 @@ const MessageBox = ({
                 <MessageSources sources={message.sources} />
               </div>
             )}
+            {message.sources?.some((source) => source.metadata.pod) && (
+              <ResultCard
+                pods={message.sources.filter((source) => source.metadata.pod)}
+              />
+            )}
             <div className="flex flex-col space-y-2">
               <div className="flex flex-row items-center space-x-2">
                 <Disc3
@@ -123,6 +130,9 @@ const MessageBox = ({
                   </div>
                   <div className="flex flex-row items-center space-x-1">
                     <Copy initialMessage={message.content} message={message} />
+                    {message.sources && message.sources.length > 0 && (
+                      <Export sources={message.sources} />
+                    )}
                     <button
                       onClick={() => {
                         if (speechStatus === 'started') {
@@ -1,4 +1,6 @@
-import { cn } from '@/lib/utils';
+import { cn, supportedFileExtensions } from '@/lib/utils';
+import { uploadFiles, UploadJobFile } from '@/lib/actions';
+import { toast } from 'sonner';
 import {
   Popover,
   PopoverButton,
@@ -21,39 +23,54 @@ const AttachSmall = ({
   setFiles: (files: FileType[]) => void;
 }) => {
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<UploadJobFile[]>([]);
   const fileInputRef = useRef<any>();
 
   const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     setLoading(true);
-    const data = new FormData();
 
-    for (let i = 0; i < e.target.files!.length; i++) {
-      data.append('files', e.target.files![i]);
-    }
+    try {
+      const uploadedFiles = await uploadFiles(e.target.files!, setProgress);
 
-    const embeddingModelProvider = localStorage.getItem(
-      'embeddingModelProvider',
-    );
-    const embeddingModel = localStorage.getItem('embeddingModel');
+      uploadedFiles
+        .filter((file) => file.status === 'failed')
+        .forEach((file) => toast.error(`${file.fileName}: ${file.error}`));
 
-    data.append('embedding_model_provider', embeddingModelProvider!);
-    data.append('embedding_model', embeddingModel!);
+      uploadedFiles
+        .filter((file) => file.warning)
+        .forEach((file) => toast.warning(`${file.fileName}: ${file.warning}`));
 
-    const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/uploads`, {
-      method: 'POST',
-      body: data,
-    });
+      const completedFiles = uploadedFiles
+        .filter((file) => file.status === 'completed')
+        .map((file) => ({
+          fileName: file.fileName,
+          fileExtension: file.fileExtension,
+          fileId: file.fileId,
+        }));
 
-    const resData = await res.json();
+      setFiles([...files, ...completedFiles]);
+      setFileIds([...fileIds, ...completedFiles.map((file) => file.fileId)]);
+    } catch (err: any) {
+      toast.error(err.message);
+    }
 
-    setFiles([...files, ...resData.files]);
-    setFileIds([...fileIds, ...resData.files.map((file: any) => file.fileId)]);
+    setProgress([]);
     setLoading(false);
   };
 
   return loading ? (
     <div className="flex flex-row items-center justify-between space-x-1 p-1">
       <LoaderCircle size={20} className="text-sky-400 animate-spin" />
+      {progress.length > 0 && (
+        <p className="text-sky-400 inline whitespace-nowrap text-xs font-medium">
+          {Math.round(
+            (progress.reduce((total, file) => total + file.progress, 0) /
+              progress.length) *
+              100,
+          )}
+          %
+        </p>
+      )}
     </div>
   ) : files.length > 0 ? (
     <Popover className="max-w-[15rem] md:max-w-md lg:max-w-lg">
@@ -88,7 +105,7 @@ const AttachSmall = ({
                     type="file"
                     onChange={handleChange}
                     ref={fileInputRef}
-                    accept=".pdf,.docx,.txt"
+                    accept={supportedFileExtensions}
                     multiple
                     hidden
                   />
@@ -141,7 +158,7 @@ const AttachSmall = ({
         type="file"
         onChange={handleChange}
         ref={fileInputRef}
-        accept=".pdf,.docx,.txt"
+        accept={supportedFileExtensions}
         multiple
         hidden
       />
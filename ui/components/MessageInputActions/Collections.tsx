@@ -0,0 +1,122 @@
+import { cn } from '@/lib/utils';
+import {
+  Popover,
+  PopoverButton,
+  PopoverPanel,
+  Transition,
+} from '@headlessui/react';
+import { Check, ChevronDown, FolderOpen } from 'lucide-react';
+import { Fragment, useEffect, useState } from 'react';
+
+interface Collection {
+  id: string;
+  name: string;
+  description: string | null;
+  fileCount: number;
+}
+
+const Collections = ({
+  collectionIds,
+  setCollectionIds,
+}: {
+  collectionIds: string[];
+  setCollectionIds: (collectionIds: string[]) => void;
+}) => {
+  const [collections, setCollections] = useState<Collection[]>([]);
+
+  useEffect(() => {
+    const fetchCollections = async () => {
+      const res = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/collections`,
+        {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        },
+      );
+
+      const data = await res.json();
+
+      setCollections(data.collections);
+    };
+
+    fetchCollections();
+  }, []);
+
+  const toggleCollection = (collectionId: string) => {
+    if (collectionIds.includes(collectionId)) {
+      setCollectionIds(collectionIds.filter((id) => id !== collectionId));
+    } else {
+      setCollectionIds([...collectionIds, collectionId]);
+    }
+  };
+
+  return (
+    <Popover className="relative w-full max-w-[15rem] md:max-w-md lg:max-w-lg mt-[6.5px]">
+      <PopoverButton
+        type="button"
+        className="text-black/50 dark:text-white/50 rounded-xl hover:bg-light-secondary dark:hover:bg-dark-secondary active:scale-95 transition duration-200 hover:text-black dark:hover:text-white"
+      >
+        <div
+          className={cn(
+            'flex flex-row items-center space-x-1',
+            collectionIds.length > 0 && 'text-sky-400',
+          )}
+        >
+          <FolderOpen size={18} />
+          <p className="text-xs font-medium whitespace-nowrap">
+            {collectionIds.length > 0
+              ? `${collectionIds.length} selected`
+              : 'Collections'}
+          </p>
+          <ChevronDown size={18} />
+        </div>
+      </PopoverButton>
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-150"
+        enterFrom="opacity-0 translate-y-1"
+        enterTo="opacity-100 translate-y-0"
+        leave="transition ease-in duration-150"
+        leaveFrom="opacity-100 translate-y-0"
+        leaveTo="opacity-0 translate-y-1"
+      >
+        <PopoverPanel className="absolute z-10 w-64 md:w-[300px] left-0">
+          <div className="flex flex-col gap-1 bg-light-primary dark:bg-dark-primary border rounded-lg border-light-200 dark:border-dark-200 w-full p-2 max-h-[250px] overflow-y-auto">
+            {collections.length === 0 && (
+              <p className="text-black/70 dark:text-white/70 text-xs p-2">
+                No collections found. Create one through the /api/collections
+                API.
+              </p>
+            )}
+            {collections.map((collection) => (
+              <button
+                type="button"
+                key={collection.id}
+                onClick={() => toggleCollection(collection.id)}
+                className="p-2 rounded-lg flex flex-row items-center justify-between text-start duration-200 cursor-pointer transition hover:bg-light-secondary dark:hover:bg-dark-secondary"
+              >
+                <div className="flex flex-col space-y-0.5">
+                  <p className="text-sm font-medium text-black dark:text-white">
+                    {collection.name}
+                  </p>
+                  <p className="text-black/70 dark:text-white/70 text-xs">
+                    {collection.fileCount} file
+                    {collection.fileCount !== 1 ? 's' : ''}
+                    {collection.description && ` · ${collection.description}`}
+                  </p>
+                </div>
+                {collectionIds.includes(collection.id) && (
+                  <Check size={16} className="text-[#24A0ED] flex-shrink-0" />
+                )}
+              </button>
+            ))}
+          </div>
+        </PopoverPanel>
+      </Transition>
+    </Popover>
+  );
+};
+
+export default Collections;
@@ -2,6 +2,8 @@ import {
   BadgePercent,
   ChevronDown,
   Globe,
+  Library,
+  Microscope,
   Pencil,
   ScanEye,
   SwatchBook,
@@ -65,6 +67,18 @@ const focusModes = [
       />
     ),
   },
+  {
+    key: 'collectionSearch',
+    title: 'Collections',
+    description: 'Search in your document collections',
+    icon: <Library size={20} />,
+  },
+  {
+    key: 'deepResearch',
+    title: 'Research',
+    description: 'Plan, search and read in several rounds for a full report',
+    icon: <Microscope size={20} />,
+  },
 ];
 
 const Focus = ({
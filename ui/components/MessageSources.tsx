@@ -9,6 +9,7 @@ import {
 import { Document } from '@langchain/core/documents';
 import { File } from 'lucide-react';
 import { Fragment, useState } from 'react';
+import { getPaperLabel, getSourceLabel, getSourceUrl } from '@/lib/utils';
 
 const MessageSources = ({ sources }: { sources: Document[] }) => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -29,12 +30,17 @@ const MessageSources = ({ sources }: { sources: Document[] }) => {
         <a
           className="bg-light-100 hover:bg-light-200 dark:bg-dark-100 dark:hover:bg-dark-200 transition duration-200 rounded-lg p-3 flex flex-col space-y-2 font-medium"
           key={i}
-          href={source.metadata.url}
+          href={getSourceUrl(source)}
           target="_blank"
         >
           <p className="dark:text-white text-xs overflow-hidden whitespace-nowrap text-ellipsis">
             {source.metadata.title}
           </p>
+          {getPaperLabel(source) && (
+            <p className="text-xs text-black/50 dark:text-white/50 overflow-hidden whitespace-nowrap text-ellipsis">
+              {getPaperLabel(source)}
+            </p>
+          )}
           <div className="flex flex-row items-center justify-between">
             <div className="flex flex-row items-center space-x-1">
               {source.metadata.url === 'File' ? (
@@ -51,7 +57,7 @@ const MessageSources = ({ sources }: { sources: Document[] }) => {
                 />
               )}
               <p className="text-xs text-black/50 dark:text-white/50 overflow-hidden whitespace-nowrap text-ellipsis">
-                {source.metadata.url.replace(/.+\/\/|www.|\..+/g, '')}
+                {getSourceLabel(source)}
               </p>
             </div>
             <div className="flex flex-row items-center space-x-1 text-black/50 dark:text-white/50 text-xs">
@@ -110,12 +116,22 @@ const MessageSources = ({ sources }: { sources: Document[] }) => {
                       <a
                         className="bg-light-secondary hover:bg-light-200 dark:bg-dark-secondary dark:hover:bg-dark-200 border border-light-200 dark:border-dark-200 transition duration-200 rounded-lg p-3 flex flex-col space-y-2 font-medium"
                         key={i}
-                        href={source.metadata.url}
+                        href={getSourceUrl(source)}
                         target="_blank"
                       >
                         <p className="dark:text-white text-xs overflow-hidden whitespace-nowrap text-ellipsis">
                           {source.metadata.title}
                         </p>
+                        {getPaperLabel(source) && (
+                          <p className="text-xs text-black/50 dark:text-white/50 overflow-hidden whitespace-nowrap text-ellipsis">
+                            {getPaperLabel(source)}
+                          </p>
+                        )}
+                        {source.metadata.abstract && (
+                          <p className="text-xs text-black/70 dark:text-white/70 line-clamp-3">
+                            {source.metadata.abstract}
+                          </p>
+                        )}
                         <div className="flex flex-row items-center justify-between">
                           <div className="flex flex-row items-center space-x-1">
                             {source.metadata.url === 'File' ? (
@@ -132,10 +148,7 @@ const MessageSources = ({ sources }: { sources: Document[] }) => {
                               />
                             )}
                             <p className="text-xs text-black/50 dark:text-white/50 overflow-hidden whitespace-nowrap text-ellipsis">
-                              {source.metadata.url.replace(
-                                /.+\/\/|www.|\..+/g,
-                                '',
-                              )}
+                              {getSourceLabel(source)}
                             </p>
                           </div>
                           <div className="flex flex-row items-center space-x-1 text-black/50 dark:text-white/50 text-xs">
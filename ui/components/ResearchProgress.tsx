@@ -0,0 +1,55 @@
+import { ListChecks, LoaderCircle } from 'lucide-react';
+import { ResearchProgress as ResearchProgressType } from './ChatWindow';
+
+const ResearchProgress = ({
+  researchProgress,
+}: {
+  researchProgress: ResearchProgressType;
+}) => {
+  const { plan, steps, progress } = researchProgress;
+
+  return (
+    <div className="flex flex-col space-y-4 w-full lg:w-9/12 bg-light-secondary dark:bg-dark-secondary border border-light-200 dark:border-dark-200 rounded-lg p-4">
+      {plan.length > 0 && (
+        <div className="flex flex-col space-y-2">
+          <div className="flex flex-row items-center space-x-2 text-black dark:text-white">
+            <ListChecks size={18} />
+            <h3 className="font-medium text-sm">Research plan</h3>
+          </div>
+          <ol className="list-decimal list-inside space-y-1 text-xs text-black/70 dark:text-white/70">
+            {plan.map((item, i) => (
+              <li key={i}>{item}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+      {progress && (
+        <div className="flex flex-col space-y-1">
+          <div className="h-1.5 w-full rounded-full bg-light-200 dark:bg-dark-200 overflow-hidden">
+            <div
+              className="h-full bg-[#24A0ED] transition-all duration-300"
+              style={{
+                width: `${Math.round((progress.completed / Math.max(progress.total, 1)) * 100)}%`,
+              }}
+            />
+          </div>
+          <p className="text-xs text-black/50 dark:text-white/50">
+            Round {progress.iteration} of {progress.maxIterations} ·{' '}
+            {progress.completed}/{progress.total} searches · {progress.sources}{' '}
+            sources
+          </p>
+        </div>
+      )}
+      {steps.length > 0 && (
+        <div className="flex flex-row items-center space-x-2 text-sky-400">
+          <LoaderCircle size={14} className="animate-spin flex-shrink-0" />
+          <p className="text-xs font-medium truncate">
+            {steps[steps.length - 1]}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResearchProgress;
@@ -0,0 +1,43 @@
+/* eslint-disable @next/next/no-img-element */
+import { Document } from '@langchain/core/documents';
+import { Calculator } from 'lucide-react';
+
+/* The pods of a computed answer, like Wolfram Alpha's input interpretation, result and plots */
+const ResultCard = ({ pods }: { pods: Document[] }) => {
+  return (
+    <div className="flex flex-col space-y-2">
+      <div className="flex flex-row items-center space-x-2">
+        <Calculator className="text-black dark:text-white" size={20} />
+        <h3 className="text-black dark:text-white font-medium text-xl">
+          Result
+        </h3>
+      </div>
+      <a
+        href={pods[0].metadata.url}
+        target="_blank"
+        className="bg-light-100 hover:bg-light-200 dark:bg-dark-100 dark:hover:bg-dark-200 transition duration-200 rounded-lg p-4 flex flex-col space-y-4"
+      >
+        {pods.map((pod, i) => (
+          <div key={i} className="flex flex-col space-y-1">
+            <p className="text-xs font-medium text-black/50 dark:text-white/50">
+              {pod.metadata.pod}
+            </p>
+            {pod.metadata.img_src ? (
+              <img
+                src={pod.metadata.img_src}
+                alt={pod.pageContent}
+                className="max-w-full h-auto rounded-lg bg-white p-1 self-start"
+              />
+            ) : (
+              <p className="text-sm text-black dark:text-white whitespace-pre-wrap break-words">
+                {pod.pageContent}
+              </p>
+            )}
+          </div>
+        ))}
+      </a>
+    </div>
+  );
+};
+
+export default ResultCard;
@@ -29,3 +29,65 @@ export const getSuggestions = async (chatHisory: Message[]) => {
 
   return data.suggestions;
 };
+
+export interface UploadJobFile {
+  fileId: string;
+  fileName: string;
+  fileExtension: string;
+  status: 'queued' | 'extracting' | 'embedding' | 'completed' | 'failed';
+  progress: number;
+  chunkCount?: number;
+  warning?: string;
+  error?: string;
+}
+
+export const uploadFiles = async (
+  fileList: FileList,
+  onProgress: (files: UploadJobFile[]) => void,
+) => {
+  const data = new FormData();
+
+  for (let i = 0; i < fileList.length; i++) {
+    data.append('files', fileList[i]);
+  }
+
+  data.append(
+    'embedding_model_provider',
+    localStorage.getItem('embeddingModelProvider')!,
+  );
+  data.append('embedding_model', localStorage.getItem('embeddingModel')!);
+
+  const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/uploads`, {
+    method: 'POST',
+    body: data,
+  });
+
+  const resData = await res.json();
+
+  if (!res.ok) {
+    throw new Error(resData.message);
+  }
+
+  onProgress(resData.files);
+
+  /* Files are processed in the background, so the job is polled until it finishes */
+  while (true) {
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const jobRes = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/uploads/jobs/${resData.jobId}`,
+    );
+
+    const jobData = await jobRes.json();
+
+    if (!jobRes.ok) {
+      throw new Error(jobData.message);
+    }
+
+    onProgress(jobData.job.files);
+
+    if (jobData.job.status === 'completed' || jobData.job.status === 'failed') {
+      return jobData.job.files as UploadJobFile[];
+    }
+  }
+};
@@ -0,0 +1,119 @@
+import type { Document } from '@langchain/core/documents';
+
+/* Passages of the same page share its URL, so each page is cited once. Uploaded files have no reference to export */
+const getCitedSources = (sources: Document[]) =>
+  sources.filter(
+    (source, i) =>
+      source.metadata.url !== 'File' &&
+      sources.findIndex(
+        (other) => other.metadata.url === source.metadata.url,
+      ) === i,
+  );
+
+const getLastName = (author: string) => author.trim().split(' ').pop() ?? '';
+
+const escapeBibTeX = (value: string) =>
+  value.replace(/([&%$#_{}])/g, '\\$1').replace(/\s+/g, ' ');
+
+const getBibTeXKey = (source: Document, usedKeys: Set<string>) => {
+  const base =
+    [
+      source.metadata.authors?.[0]
+        ? getLastName(source.metadata.authors[0])
+        : '',
+      source.metadata.year ?? '',
+      source.metadata.title?.split(' ')[0] ?? '',
+    ]
+      .join('')
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '') || 'source';
+
+  let key = base;
+
+  for (let suffix = 1; usedKeys.has(key); suffix++) {
+    key = `${base}${String.fromCharCode(96 + suffix)}`;
+  }
+
+  usedKeys.add(key);
+
+  return key;
+};
+
+export const toBibTeX = (sources: Document[]) => {
+  const usedKeys = new Set<string>();
+
+  return getCitedSources(sources)
+    .map((source) => {
+      const { metadata } = source;
+      const isArticle = metadata.venue && metadata.venue !== 'arXiv';
+
+      const fields: [string, string | undefined][] = [
+        ['title', metadata.title],
+        ['author', metadata.authors?.join(' and ')],
+        ['year', metadata.year?.toString()],
+        ['journal', isArticle ? metadata.venue : undefined],
+        ['doi', metadata.doi],
+        ['eprint', metadata.arxivId],
+        ['archivePrefix', metadata.arxivId ? 'arXiv' : undefined],
+        ['url', metadata.url],
+        ['abstract', metadata.abstract],
+      ];
+
+      const body = fields
+        .filter(([, value]) => value)
+        .map(
+          ([name, value]) =>
+            `  ${name} = {${name === 'url' ? value : escapeBibTeX(value!)}}`,
+        )
+        .join(',\n');
+
+      return `@${isArticle ? 'article' : 'misc'}{${getBibTeXKey(source, usedKeys)},\n${body}\n}`;
+    })
+    .join('\n\n');
+};
+
+export const toRIS = (sources: Document[]) =>
+  getCitedSources(sources)
+    .map(({ metadata }) => {
+      const type = metadata.venue
+        ? metadata.venue === 'arXiv'
+          ? 'GEN'
+          : 'JOUR'
+        : 'ELEC';
+
+      const tags: [string, string | undefined][] = [
+        ['TY', type],
+        ...(metadata.authors ?? []).map((author: string): [string, string] => [
+          'AU',
+          author,
+        ]),
+        ['TI', metadata.title],
+        ['PY', metadata.year?.toString()],
+        ['JO', type === 'JOUR' ? metadata.venue : undefined],
+        ['DO', metadata.doi],
+        ['UR', metadata.url],
+        ['AB', metadata.abstract?.replace(/\s+/g, ' ')],
+        ['ER', ''],
+      ];
+
+      return tags
+        .filter(([tag, value]) => tag === 'ER' || value)
+        .map(([tag, value]) => `${tag}  - ${value}`)
+        .join('\n');
+    })
+    .join('\n\n');
+
+export const downloadFile = (
+  content: string,
+  fileName: string,
+  type: string,
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
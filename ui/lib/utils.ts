@@ -1,5 +1,6 @@
 import clsx, { ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { Document } from '@langchain/core/documents';
 
 export const cn = (...classes: ClassValue[]) => twMerge(clsx(...classes));
 
@@ -25,3 +26,104 @@ export const formatTimeDifference = (
   else
     return `${Math.floor(diffInSeconds / 31536000)} year${Math.floor(diffInSeconds / 31536000) !== 1 ? 's' : ''}`;
 };
+
+export const getSourceUrl = (source: Document) => {
+  if (source.metadata.url !== 'File' || !source.metadata.fileId) {
+    return source.metadata.url;
+  }
+
+  const params = new URLSearchParams();
+
+  if (source.metadata.section !== undefined) {
+    params.set('section', String(source.metadata.section));
+  }
+
+  if (source.metadata.start !== undefined) {
+    params.set('start', String(source.metadata.start));
+    params.set('end', String(source.metadata.end));
+  }
+
+  return `/files/${source.metadata.fileId}?${params.toString()}`;
+};
+
+export const getSourceLabel = (source: Document) => {
+  if (source.metadata.url !== 'File') {
+    return source.metadata.url.replace(/.+\/\/|www.|\..+/g, '');
+  }
+
+  if (source.metadata.page) {
+    return `Page ${source.metadata.page}`;
+  }
+
+  if (source.metadata.headings?.length > 0) {
+    return source.metadata.headings[source.metadata.headings.length - 1];
+  }
+
+  return 'File';
+};
+
+/* Authors, year and venue of academic sources, like "Vaswani et al. · 2017 · NeurIPS" */
+export const getPaperLabel = (source: Document) => {
+  const authors: string[] = source.metadata.authors ?? [];
+  const lastNames = authors.map((author) => author.split(' ').pop());
+
+  return [
+    lastNames.length > 2 ? `${lastNames[0]} et al.` : lastNames.join(' and '),
+    source.metadata.year,
+    source.metadata.venue,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+export const supportedFileExtensions = [
+  '.pdf',
+  '.docx',
+  '.txt',
+  '.md',
+  '.markdown',
+  '.html',
+  '.htm',
+  '.csv',
+  '.tsv',
+  '.xlsx',
+  '.xls',
+  '.ods',
+  '.pptx',
+  '.epub',
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  '.ts',
+  '.tsx',
+  '.py',
+  '.go',
+  '.java',
+  '.kt',
+  '.c',
+  '.h',
+  '.cc',
+  '.cpp',
+  '.hpp',
+  '.cs',
+  '.php',
+  '.rb',
+  '.rs',
+  '.scala',
+  '.swift',
+  '.sol',
+  '.proto',
+  '.rst',
+  '.tex',
+  '.sh',
+  '.sql',
+  '.json',
+  '.yaml',
+  '.yml',
+  '.toml',
+  '.css',
+].join(',');